@@ -0,0 +1,108 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import {
+  ASSUMPTION_DEFINITIONS,
+  resolveAssumptions,
+  formatAssumptionValue,
+  type AssumptionDefinition,
+  type AssumptionGroup,
+  type SimulationAssumptions
+} from '@/utils/assumptionsUtils';
+
+interface AssumptionsPanelProps {
+  overrides: Partial<SimulationAssumptions>;
+  onChange: (overrides: Partial<SimulationAssumptions>) => void;
+}
+
+const GROUPS: AssumptionGroup[] = ['Automation', 'Production Efficiency', 'Inventory', 'Marketing', 'Response Curves', 'Forecast'];
+
+// Shares are edited as percentages; everything else in its own unit
+const toInputValue = (definition: AssumptionDefinition, value: number) =>
+  definition.unit === 'share' ? Math.round(value * 1000) / 10 : value;
+
+const fromInputValue = (definition: AssumptionDefinition, value: number) =>
+  definition.unit === 'share' ? value / 100 : value;
+
+const AssumptionsPanel: React.FC<AssumptionsPanelProps> = ({ overrides, onChange }) => {
+  const assumptions = resolveAssumptions(overrides);
+  const editedCount = Object.keys(overrides).length;
+
+  const updateAssumption = (definition: AssumptionDefinition, input: string) => {
+    const value = parseFloat(input);
+    if (!Number.isFinite(value)) return;
+    onChange({ ...overrides, [definition.id]: fromInputValue(definition, value) });
+  };
+
+  const resetAssumption = (definition: AssumptionDefinition) => {
+    const { [definition.id]: _removed, ...rest } = overrides;
+    onChange(rest);
+  };
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl professional-heading">Assumptions</CardTitle>
+            <p className="text-sm professional-text">
+              Every constant the engine runs on. Edited values apply across the Sandbox and are listed in the PDF report.
+            </p>
+          </div>
+          {editedCount > 0 && (
+            <Button variant="outline" size="sm" onClick={() => onChange({})} className="flex items-center gap-1">
+              <RotateCcw className="w-3 h-3" />
+              Reset all ({editedCount})
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {GROUPS.map(group => (
+          <div key={group} className="space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 border-b border-gray-200 pb-1">{group}</h4>
+            {ASSUMPTION_DEFINITIONS.filter(definition => definition.group === group).map(definition => {
+              const isEdited = overrides[definition.id] !== undefined;
+              return (
+                <div key={definition.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-start">
+                  <div className="md:col-span-2">
+                    <label htmlFor={`assumption-${definition.id}`} className="text-sm font-medium text-gray-700">
+                      {definition.label}
+                      {isEdited && <span className="ml-2 text-xs text-purple-600">edited</span>}
+                    </label>
+                    <p className="text-xs text-gray-500">{definition.description}</p>
+                    <p className="text-xs text-gray-400">
+                      Default {formatAssumptionValue(definition, definition.defaultValue, formatMoney)}, valid{' '}
+                      {formatAssumptionValue(definition, definition.min, formatMoney)}–{formatAssumptionValue(definition, definition.max, formatMoney)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      id={`assumption-${definition.id}`}
+                      min={toInputValue(definition, definition.min)}
+                      max={toInputValue(definition, definition.max)}
+                      step={toInputValue(definition, definition.step)}
+                      value={toInputValue(definition, assumptions[definition.id])}
+                      onChange={(e) => updateAssumption(definition, e.target.value)}
+                      className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                    {isEdited && (
+                      <Button variant="ghost" size="sm" onClick={() => resetAssumption(definition)} aria-label={`Reset ${definition.label}`}>
+                        <RotateCcw className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssumptionsPanel;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import BenchmarkRangeBar from '@/components/BenchmarkRangeBar';
+import { INDUSTRIES } from '@/lib/industries';
+import {
+  BENCHMARK_METRICS,
+  compareToBenchmark,
+  formatBenchmarkValue,
+  getBenchmarkDataset,
+  getIndustryBenchmark,
+  type BenchmarkMetricId,
+  type BenchmarkValues
+} from '@/utils/benchmarkUtils';
+
+interface BenchmarkPanelProps {
+  industry: string;
+  onIndustryChange: (industry: string) => void;
+  companyValues: BenchmarkValues;
+  scenarioValues: BenchmarkValues;
+}
+
+const COMPANY_COLOR = '#6B7280';
+const SCENARIO_COLOR = '#8B5CF6';
+
+const QUARTILE_LABELS = {
+  bottom: 'bottom quartile',
+  middle: 'middle half',
+  top: 'top quartile'
+};
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ industry, onIndustryChange, companyValues, scenarioValues }) => {
+  const dataset = getBenchmarkDataset();
+  const { industry: benchmarkIndustry, benchmark } = getIndustryBenchmark(industry, dataset);
+
+  const rows = (Object.keys(BENCHMARK_METRICS) as BenchmarkMetricId[])
+    .filter(id => benchmark[id] && scenarioValues[id] !== undefined)
+    .map(id => {
+      const range = benchmark[id];
+      const values = [companyValues[id], scenarioValues[id]].filter((value): value is number => value !== undefined);
+      return {
+        id,
+        range,
+        scaleMax: Math.max(range.p75 * 1.5, ...values.map(value => value * 1.1)),
+        company: companyValues[id],
+        scenario: compareToBenchmark(id, scenarioValues[id], range)
+      };
+    });
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl professional-heading">Industry Benchmarks</CardTitle>
+            <p className="text-sm professional-text">
+              The green band is the middle half of {benchmarkIndustry === 'Other' ? 'all peers' : `${benchmarkIndustry} peers`}, the tick their median.
+            </p>
+          </div>
+          <select
+            id="benchmark-industry"
+            value={industry}
+            onChange={(e) => onIndustryChange(e.target.value)}
+            className="p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">All industries</option>
+            {INDUSTRIES.filter(name => name !== 'Other').map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex items-center gap-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: COMPANY_COLOR }} />Today</span>
+          <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: SCENARIO_COLOR }} />Scenario</span>
+        </div>
+
+        {rows.map(row => (
+          <div key={row.id} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">{BENCHMARK_METRICS[row.id].label}</span>
+              <span className="text-xs text-gray-500">
+                Median {formatBenchmarkValue(row.id, row.range.median)} ({formatBenchmarkValue(row.id, row.range.p25)}–{formatBenchmarkValue(row.id, row.range.p75)})
+              </span>
+            </div>
+            <BenchmarkRangeBar
+              range={row.range}
+              min={0}
+              max={row.scaleMax}
+              markers={[
+                ...(row.company !== undefined ? [{ value: row.company, color: COMPANY_COLOR, label: `Today: ${formatBenchmarkValue(row.id, row.company)}` }] : []),
+                { value: row.scenario.value, color: SCENARIO_COLOR, label: `Scenario: ${formatBenchmarkValue(row.id, row.scenario.value)}` }
+              ]}
+            />
+            <div className={`text-xs ${row.scenario.favorable ? 'text-green-600' : 'text-amber-600'}`}>
+              Scenario {formatBenchmarkValue(row.id, row.scenario.value)}: {QUARTILE_LABELS[row.scenario.quartile]}, around peer percentile {row.scenario.percentile}
+              {BENCHMARK_METRICS[row.id].higherIsBetter ? '' : ' (lower is better)'}
+            </div>
+          </div>
+        ))}
+
+        <p className="text-xs text-gray-500 border-t border-gray-200 pt-3">
+          Benchmarks v{dataset.version}, effective {dataset.effectiveDate}. {dataset.source}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { BenchmarkRange } from '@/utils/benchmarkUtils';
+
+interface BenchmarkMarker {
+  value: number;
+  color: string;
+  label: string;
+}
+
+interface BenchmarkRangeBarProps {
+  range: BenchmarkRange;
+  min: number;
+  max: number;
+  markers?: BenchmarkMarker[];
+  caption?: string;
+}
+
+// Peer interquartile band and median on a min-max scale, aligned with a slider track when given its range
+const BenchmarkRangeBar: React.FC<BenchmarkRangeBarProps> = ({ range, min, max, markers = [], caption }) => {
+  const toPercent = (value: number) => Math.min(100, Math.max(0, ((value - min) / Math.max(max - min, 1e-9)) * 100));
+  const bandStart = toPercent(range.p25);
+  const bandEnd = toPercent(range.p75);
+
+  return (
+    <div className="space-y-1">
+      <div className="relative h-2 bg-gray-100 rounded-full">
+        <div
+          className="absolute top-0 h-2 bg-emerald-200 rounded-full"
+          style={{ left: `${bandStart}%`, width: `${Math.max(bandEnd - bandStart, 1)}%` }}
+          title="Peer interquartile range"
+        />
+        <div
+          className="absolute -top-0.5 w-0.5 h-3 bg-emerald-700 rounded-full"
+          style={{ left: `${toPercent(range.median)}%`, transform: 'translateX(-50%)' }}
+          title="Peer median"
+        />
+        {markers.map(marker => (
+          <div
+            key={marker.label}
+            className="absolute top-1/2 w-2.5 h-2.5 rounded-full border-2 border-white shadow"
+            style={{ left: `${toPercent(marker.value)}%`, transform: 'translate(-50%, -50%)', backgroundColor: marker.color }}
+            title={marker.label}
+          />
+        ))}
+      </div>
+      {caption && <div className="text-xs text-emerald-700">{caption}</div>}
+    </div>
+  );
+};
+
+export default BenchmarkRangeBar;
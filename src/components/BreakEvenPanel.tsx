@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import type { PLData, ForecastData } from '@/utils/simulationUtils';
+import { getBaselineBreakEven, getForecastBreakEven, type BreakEvenAnalysis } from '@/utils/breakEvenUtils';
+import { formatMoney, formatCompactMoney } from '@/lib/currency';
+
+interface BreakEvenPanelProps {
+  baselineData: PLData;
+  forecastData: ForecastData[];
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  revenue: 'Revenue',
+  totalCost: 'Total Cost',
+  fixedCost: 'Fixed Cost',
+  baselineRevenue: 'Baseline Revenue',
+  baselineTotalCost: 'Baseline Total Cost'
+};
+
+const formatAmount = (value: number | null) => (value === null ? 'n/a' : formatMoney(value));
+
+const BreakEvenPanel: React.FC<BreakEvenPanelProps> = ({ baselineData, forecastData }) => {
+  const baseline = useMemo(() => getBaselineBreakEven(baselineData), [baselineData]);
+  const adjusted = useMemo(() => getForecastBreakEven(forecastData), [forecastData]);
+
+  // Classic break-even chart: revenue and total cost lines against monthly units
+  const chartData = useMemo(() => {
+    const referenceUnits = [baseline.units, adjusted.units, baseline.breakEvenUnits, adjusted.breakEvenUnits].filter((units): units is number => units !== null);
+    const maxUnits = Math.max(...referenceUnits, 1) * 1.3;
+    const line = (analysis: BreakEvenAnalysis, units: number) => ({
+      revenue: Math.round((analysis.pricePerUnit || 0) * units),
+      totalCost: Math.round(analysis.fixedCosts + (analysis.variableCostPerUnit || 0) * units)
+    });
+
+    return Array.from({ length: 21 }, (_, i) => {
+      const units = Math.round((maxUnits / 20) * i);
+      const adjustedPoint = line(adjusted, units);
+      const baselinePoint = line(baseline, units);
+      return {
+        units,
+        revenue: adjustedPoint.revenue,
+        totalCost: adjustedPoint.totalCost,
+        fixedCost: Math.round(adjusted.fixedCosts),
+        baselineRevenue: baselinePoint.revenue,
+        baselineTotalCost: baselinePoint.totalCost
+      };
+    });
+  }, [baseline, adjusted]);
+
+  // Reference lines need an x value that exists on the category axis
+  const nearestUnits = (units: number | null) =>
+    units === null ? null : chartData.reduce((best, point) => (Math.abs(point.units - units) < Math.abs(best - units) ? point.units : best), chartData[0].units);
+
+  const rows: Array<{ label: string; baseline: string; adjusted: string }> = [
+    { label: 'Contribution Margin', baseline: `${(baseline.contributionMarginRatio * 100).toFixed(1)}%`, adjusted: `${(adjusted.contributionMarginRatio * 100).toFixed(1)}%` },
+    { label: 'Contribution / Unit', baseline: formatAmount(baseline.contributionMarginPerUnit), adjusted: formatAmount(adjusted.contributionMarginPerUnit) },
+    { label: 'Fixed Costs / Month', baseline: formatAmount(baseline.fixedCosts), adjusted: formatAmount(adjusted.fixedCosts) },
+    { label: 'Break-even Revenue', baseline: formatAmount(baseline.breakEvenRevenue), adjusted: formatAmount(adjusted.breakEvenRevenue) },
+    {
+      label: 'Break-even Units',
+      baseline: baseline.breakEvenUnits !== null ? Math.round(baseline.breakEvenUnits).toLocaleString() : 'n/a',
+      adjusted: adjusted.breakEvenUnits !== null ? Math.round(adjusted.breakEvenUnits).toLocaleString() : 'n/a'
+    },
+    {
+      label: 'Margin of Safety',
+      baseline: baseline.marginOfSafetyPercent !== null ? `${baseline.marginOfSafetyPercent.toFixed(1)}%` : 'n/a',
+      adjusted: adjusted.marginOfSafetyPercent !== null ? `${adjusted.marginOfSafetyPercent.toFixed(1)}%` : 'n/a'
+    }
+  ];
+
+  const adjustedBreakEvenX = nearestUnits(adjusted.breakEvenUnits);
+  const adjustedUnitsX = nearestUnits(adjusted.units);
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Break-even Analysis</CardTitle>
+        <p className="text-sm professional-text">
+          COGS is treated as variable and all other costs as fixed. The adjusted scenario uses the first-year monthly average.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="w-full h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="units" tickFormatter={(value) => `${(value / 1000).toFixed(1)}k`} tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} tick={{ fontSize: 12 }} />
+              <Tooltip
+                labelFormatter={(value) => `${Number(value).toLocaleString()} units/month`}
+                formatter={(value, name) => [formatMoney(Number(value)), SERIES_LABELS[name as string] || name]}
+              />
+              <Legend formatter={(value) => SERIES_LABELS[value] || value} />
+              <Line type="linear" dataKey="revenue" stroke="hsl(220, 70%, 50%)" strokeWidth={3} dot={false} />
+              <Line type="linear" dataKey="totalCost" stroke="#EF4444" strokeWidth={3} dot={false} />
+              <Line type="linear" dataKey="fixedCost" stroke="#F59E0B" strokeWidth={2} dot={false} />
+              <Line type="linear" dataKey="baselineRevenue" stroke="hsl(220, 70%, 50%)" strokeWidth={1} strokeDasharray="5 5" dot={false} />
+              <Line type="linear" dataKey="baselineTotalCost" stroke="#EF4444" strokeWidth={1} strokeDasharray="5 5" dot={false} />
+              {adjustedBreakEvenX !== null && (
+                <ReferenceLine x={adjustedBreakEvenX} stroke="#111827" strokeDasharray="3 3" label={{ value: 'Break-even', position: 'insideTopLeft', fontSize: 11 }} />
+              )}
+              {adjustedUnitsX !== null && (
+                <ReferenceLine x={adjustedUnitsX} stroke="#10B981" strokeDasharray="3 3" label={{ value: 'Current volume', position: 'insideTopRight', fontSize: 11 }} />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Metric</th>
+                <th className="py-2 font-medium text-right">Baseline</th>
+                <th className="py-2 font-medium text-right">Adjusted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-700">{row.label}</td>
+                  <td className="py-2 text-right text-gray-900">{row.baseline}</td>
+                  <td className="py-2 text-right font-semibold text-gray-900">{row.adjusted}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BreakEvenPanel;
@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import {
+  COEFFICIENT_LABELS,
+  MIN_CALIBRATION_PERIODS,
+  calibrateCoefficients,
+  parsePLHistoryCsv,
+  type CalibrationResult,
+  type CoefficientId,
+  type EngineCoefficients,
+  type PLHistoryPeriod
+} from '@/utils/calibrationUtils';
+import type { SimulationAssumptions } from '@/utils/assumptionsUtils';
+
+interface CalibrationPanelProps {
+  calibration: CalibrationResult | null;
+  onCalibrationChange: (calibration: CalibrationResult | null) => void;
+  defaultCoefficients: EngineCoefficients; // what the engine uses without calibration
+  uploadedHistory: PLHistoryPeriod[];
+  assumptions: SimulationAssumptions; // fits are normalised at the assumed lever baselines
+}
+
+const formatCoefficient = (id: CoefficientId, value: number) =>
+  id === 'carryingCostPerTurn' ? `${formatMoney(value)}/mo` : `${(value * 100).toFixed(1)}%`;
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ calibration, onCalibrationChange, defaultCoefficients, uploadedHistory, assumptions }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const hasUsableFit = !!calibration && calibration.fits.some(fit => fit.usable);
+
+  const runCalibration = (history: PLHistoryPeriod[]) => {
+    if (history.length < MIN_CALIBRATION_PERIODS) {
+      toast({
+        title: "Not enough history",
+        description: `Provide at least ${MIN_CALIBRATION_PERIODS} periods with revenue, costs and the lever levels.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    const result = calibrateCoefficients(history, assumptions);
+    onCalibrationChange(result);
+    toast({
+      title: "Calibration fitted",
+      description: `${result.fits.filter(fit => fit.usable).length} of ${result.fits.length} coefficients fitted from ${history.length} periods. Review the fit before using it.`
+    });
+  };
+
+  const handleHistoryUpload = async (file: File) => {
+    runCalibration(parsePLHistoryCsv(await file.text()));
+  };
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Engine Calibration</CardTitle>
+        <p className="text-sm professional-text">
+          Fits the per-tier impact of automation, efficiency and inventory turns to your own P&L history instead of
+          typical-company defaults. Each cost's share of revenue is regressed on its lever level across periods.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          {uploadedHistory.length > 0 && (
+            <Button variant="outline" onClick={() => runCalibration(uploadedHistory)}>
+              Fit uploaded history ({uploadedHistory.length} periods)
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+            <Upload className="w-4 h-4" />
+            Fit from CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleHistoryUpload(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          {calibration && (
+            <Button variant="outline" onClick={() => onCalibrationChange(null)}>
+              Clear
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          CSV columns: period, revenue, cogs, labor, overhead, automation_level, production_efficiency, inventory_turns.
+        </p>
+
+        {calibration && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-3 font-medium">Coefficient</th>
+                    <th className="py-2 pr-3 font-medium text-right">Default</th>
+                    <th className="py-2 pr-3 font-medium text-right">Fitted</th>
+                    <th className="py-2 pr-3 font-medium text-right">R²</th>
+                    <th className="py-2 pr-3 font-medium text-right">Periods</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {calibration.fits.map(fit => (
+                    <tr key={fit.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-3 text-gray-700">{COEFFICIENT_LABELS[fit.id]}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{formatCoefficient(fit.id, defaultCoefficients[fit.id])}</td>
+                      <td className="py-2 pr-3 text-right font-semibold text-gray-900">{fit.value !== null ? formatCoefficient(fit.id, fit.value) : '–'}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{fit.rSquared !== null ? fit.rSquared.toFixed(2) : '–'}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{fit.periods}</td>
+                      <td className={`py-2 text-xs ${fit.usable ? 'text-green-600' : 'text-amber-600'}`}>
+                        {fit.usable ? 'Usable' : fit.reason}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="use-calibration"
+                checked={calibration.accepted}
+                disabled={!hasUsableFit}
+                onChange={(e) => onCalibrationChange({ ...calibration, accepted: e.target.checked })}
+                className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+              />
+              <label htmlFor="use-calibration" className="text-sm text-gray-700">
+                Use the usable fits in the Sandbox; the rest keep their defaults
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Fitted {new Date(calibration.calibratedAt).toLocaleDateString()} from {calibration.periods} periods and saved with the company profile.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalibrationPanel;
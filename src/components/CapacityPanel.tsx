@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { ForecastData } from '@/utils/simulationUtils';
+import { summarizeCapacity, type CapacityModel } from '@/utils/capacityUtils';
+import { formatMoney } from '@/lib/currency';
+
+interface CapacityPanelProps {
+  model: CapacityModel;
+  onChange: (model: CapacityModel) => void;
+  forecastData: ForecastData[];
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  demandUnits: 'Demand',
+  capacityUnits: 'Capacity',
+  unmetUnits: 'Unmet Demand'
+};
+
+const CapacityPanel: React.FC<CapacityPanelProps> = ({ model, onChange, forecastData }) => {
+  const summary = useMemo(() => summarizeCapacity(forecastData), [forecastData]);
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Production Capacity</CardTitle>
+        <p className="text-sm professional-text">
+          Units sold are capped at what the business can make. Capacity grows with production efficiency and labor hours.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label htmlFor="base-capacity" className="text-xs text-gray-600 space-y-1">
+            <span>Base Capacity (units/month)</span>
+            <input
+              type="number"
+              id="base-capacity"
+              min={0}
+              step={100}
+              value={model.baseUnitsPerMonth}
+              onChange={(e) => onChange({ ...model, baseUnitsPerMonth: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </label>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs">
+              <label htmlFor="labor-capacity" className="text-gray-600">Labor Hours (shifts/overtime)</label>
+              <span className="font-bold text-black">{Math.round(model.laborCapacityFactor * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              id="labor-capacity"
+              min={0.8}
+              max={1.5}
+              step={0.05}
+              value={model.laborCapacityFactor}
+              onChange={(e) => onChange({ ...model, laborCapacityFactor: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+            />
+            <p className="text-xs text-gray-500">Labor cost scales with hours.</p>
+          </div>
+        </div>
+
+        <div className="w-full h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={forecastData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => `${(value / 1000).toFixed(1)}k`} tick={{ fontSize: 12 }} width={40} />
+              <Tooltip formatter={(value, name) => [`${Number(value).toLocaleString()} units`, SERIES_LABELS[name as string] || name]} />
+              <Bar dataKey="unmetUnits" fill="#EF4444" opacity={0.6} />
+              <Line type="monotone" dataKey="demandUnits" stroke="hsl(220, 70%, 50%)" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="capacityUnits" stroke="#111827" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {summary.needsInvestment ? (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Demand exceeds capacity in {summary.constrainedMonths} month{summary.constrainedMonths === 1 ? '' : 's'}, starting {summary.firstConstrainedMonth}.
+              {' '}{summary.totalUnmetUnits.toLocaleString()} units ({formatMoney(summary.totalLostRevenue)} revenue) go unmet.
+              Capacity investment needed: about {summary.additionalUnitsNeeded.toLocaleString()} more units/month.
+            </span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 text-sm text-green-800">
+            <CheckCircle className="w-4 h-4 flex-shrink-0" />
+            Demand fits within capacity. Peak utilization {summary.peakUtilization}%.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CapacityPanel;
@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { PLData, ForecastData } from '@/utils/simulationUtils';
+import {
+  generateCashFlowProjection,
+  summarizeCashFlow,
+  getDefaultWorkingCapitalAssumptions,
+  inventoryDaysFromTurnover,
+  type CapexItem
+} from '@/utils/cashFlowUtils';
+import { useCurrency } from '@/hooks/use-currency';
+
+interface CashFlowPanelProps {
+  baselineData: PLData;
+  forecastData: ForecastData[];
+  inventoryTurnover: number;
+}
+
+const CashFlowPanel: React.FC<CashFlowPanelProps> = ({ baselineData, forecastData, inventoryTurnover }) => {
+  const { formatMoney, formatCompactMoney, currencySymbol } = useCurrency();
+  const defaults = useMemo(() => getDefaultWorkingCapitalAssumptions(baselineData), [baselineData]);
+  const [openingCash, setOpeningCash] = useState(defaults.openingCash);
+  const [receivableDays, setReceivableDays] = useState(defaults.receivableDays);
+  const [payableDays, setPayableDays] = useState(defaults.payableDays);
+  const [capex, setCapex] = useState<CapexItem[]>([]);
+
+  const cashFlow = useMemo(() =>
+    generateCashFlowProjection(baselineData, forecastData, {
+      ...defaults,
+      openingCash,
+      receivableDays,
+      payableDays,
+      inventoryDays: inventoryDaysFromTurnover(inventoryTurnover),
+      capex
+    }),
+    [baselineData, forecastData, defaults, openingCash, receivableDays, payableDays, inventoryTurnover, capex]
+  );
+  const summary = useMemo(() => summarizeCashFlow(cashFlow), [cashFlow]);
+
+  const updateCapex = (index: number, changes: Partial<CapexItem>) => {
+    setCapex(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const renderNumberInput = (id: string, label: string, value: number, onChange: (value: number) => void) => (
+    <label htmlFor={id} className="text-xs text-gray-600 space-y-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        id={id}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+    </label>
+  );
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Cash Flow Projection</CardTitle>
+        <p className="text-sm professional-text">
+          Cash balance after working-capital movements and capital spending, alongside the profit forecast.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {renderNumberInput('opening-cash', `Opening Cash (${currencySymbol})`, openingCash, setOpeningCash)}
+          {renderNumberInput('receivable-days', 'Receivable Days', receivableDays, setReceivableDays)}
+          {renderNumberInput('payable-days', 'Payable Days', payableDays, setPayableDays)}
+          <div className="text-xs text-gray-600 space-y-1">
+            <span>Inventory Days</span>
+            <div className="p-2 text-sm font-semibold text-gray-900 bg-gray-50 rounded-lg">
+              {inventoryDaysFromTurnover(inventoryTurnover).toFixed(0)} (from {inventoryTurnover}x turnover)
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Capital Expenditure</span>
+            <Button variant="outline" size="sm" onClick={() => setCapex(prev => [...prev, { month: 1, amount: 10000 }])} className="flex items-center gap-1">
+              <Plus className="w-4 h-4" />
+              Add Capex
+            </Button>
+          </div>
+          {capex.map((item, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">Month</span>
+              <input
+                type="number"
+                min={1}
+                max={forecastData.length}
+                value={item.month}
+                onChange={(e) => updateCapex(index, { month: parseInt(e.target.value) || 1 })}
+                className="w-16 p-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <span className="text-gray-600">Amount {currencySymbol}</span>
+              <input
+                type="number"
+                value={item.amount}
+                onChange={(e) => updateCapex(index, { amount: parseFloat(e.target.value) || 0 })}
+                className="w-28 p-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => setCapex(prev => prev.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove capex"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="w-full h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={cashFlow}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} />
+              <Tooltip
+                formatter={(value, name) => [
+                  formatMoney(Number(value)),
+                  name === 'cashBalance' ? 'Cash Balance' : 'Net Cash Flow'
+                ]}
+              />
+              <ReferenceLine y={0} stroke="#DC2626" strokeDasharray="4 4" />
+              <Bar dataKey="netCashFlow" fill="#10B981" opacity={0.6} />
+              <Line type="monotone" dataKey="cashBalance" stroke="hsl(220, 70%, 50%)" strokeWidth={3} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {summary.firstNegativeMonth && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-800">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            Cash runs out in {summary.firstNegativeMonth}. Lowest balance {formatMoney(summary.lowestCash)} in {summary.lowestCashMonth}.
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">Ending Cash</div>
+            <div className={`text-lg font-bold ${summary.endingCash >= 0 ? 'text-gray-900' : 'text-red-600'}`}>{formatMoney(summary.endingCash)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">Lowest Cash</div>
+            <div className={`text-lg font-bold ${summary.lowestCash >= 0 ? 'text-gray-900' : 'text-red-600'}`}>{formatMoney(summary.lowestCash)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">Working Capital Released</div>
+            <div className={`text-lg font-bold ${summary.workingCapitalReleased >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatMoney(summary.workingCapitalReleased, { signed: true })}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CashFlowPanel;
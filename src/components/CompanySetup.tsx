@@ -6,9 +6,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/api';
+import { INDUSTRIES } from '@/lib/industries';
+import { CURRENCIES, getCurrencySettings, setCurrencySettings, type CurrencyCode } from '@/lib/currency';
 
 interface CompanySetupProps {
-  onComplete: (companyData: { id: string; name: string; industry: string; email: string; emailConsent: boolean }) => void;
+  onComplete: (companyData: { id: string; name: string; industry: string; email: string; emailConsent: boolean; currency: CurrencyCode }) => void;
 }
 
 const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
@@ -16,22 +18,12 @@ const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
   const [industry, setIndustry] = useState('');
   const [email, setEmail] = useState('');
   const [emailConsent, setEmailConsent] = useState(false);
+  const [currency, setCurrency] = useState<CurrencyCode>(getCurrencySettings().code);
+  const [convertFigures, setConvertFigures] = useState(false);
+  const [conversionRate, setConversionRate] = useState('');
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  const industries = [
-    'Manufacturing',
-    'Retail',
-    'Technology',
-    'Healthcare',
-    'Financial Services',
-    'Automotive',
-    'Food & Beverage',
-    'Logistics & Transportation',
-    'Construction',
-    'Other'
-  ];
-
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
@@ -58,6 +50,16 @@ const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
       return;
     }
 
+    const rate = parseFloat(conversionRate);
+    if (convertFigures && !(rate > 0)) {
+      toast({
+        title: "Invalid conversion rate",
+        description: "Enter how many units of the reporting currency one unit of your P&L currency buys.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       const data = await apiRequest('/companies', {
@@ -66,16 +68,19 @@ const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
           name: companyName.trim(),
           industry: industry,
           email: email.trim(),
-          emailConsent: emailConsent
+          emailConsent: emailConsent,
+          currency: currency
         }),
       });
 
+      setCurrencySettings({ ...getCurrencySettings(), code: currency, conversionRate: convertFigures ? rate : null });
       onComplete({
         id: data.data.id,
         name: companyName.trim(),
         industry: industry,
         email: email.trim(),
-        emailConsent: emailConsent
+        emailConsent: emailConsent,
+        currency: currency
       });
     } catch (error) {
       console.error('Company setup error:', error);
@@ -121,7 +126,7 @@ const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
             >
               <option value="">Select your industry</option>
-              {industries.map((ind) => (
+              {INDUSTRIES.map((ind) => (
                 <option key={ind} value={ind}>
                   {ind}
                 </option>
@@ -129,6 +134,50 @@ const CompanySetup: React.FC<CompanySetupProps> = ({ onComplete }) => {
             </select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="currency">Reporting Currency</Label>
+            <select
+              id="currency"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              {CURRENCIES.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.code} – {option.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-3 pt-1">
+              <input
+                type="checkbox"
+                id="convertFigures"
+                checked={convertFigures}
+                onChange={(e) => setConvertFigures(e.target.checked)}
+                className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+              />
+              <label htmlFor="convertFigures" className="text-sm text-gray-600">
+                My P&L is in a different currency
+              </label>
+            </div>
+            {convertFigures && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <span>1 unit of P&L currency =</span>
+                <Input
+                  id="conversion-rate"
+                  type="number"
+                  min="0"
+                  step="0.0001"
+                  placeholder="0.92"
+                  value={conversionRate}
+                  onChange={(e) => setConversionRate(e.target.value)}
+                  className="w-28 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <span>{currency}</span>
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="email">Email Address *</Label>
             <Input
@@ -0,0 +1,112 @@
+import React from 'react';
+import { DEFAULT_DEMAND_MODEL, type DemandModel, type DemandModelType } from '@/utils/simulationUtils';
+import { useCurrency } from '@/hooks/use-currency';
+
+interface DemandModelSelectorProps {
+  value: DemandModel;
+  onChange: (model: DemandModel) => void;
+  basePrice: number; // today's price; the reference price defaults to it
+}
+
+const modelOptions: Array<{ type: DemandModelType; label: string; description: string }> = [
+  { type: 'kinked', label: 'Kinked', description: 'Customers react more strongly to price increases than to cuts.' },
+  { type: 'linear', label: 'Linear', description: 'Demand moves proportionally to the price change.' },
+  { type: 'constantElasticity', label: 'Constant Elasticity (log-log)', description: 'Same % response at every price level; large moves compound.' },
+  { type: 'referencePrice', label: 'Reference Price', description: 'Customers anchor on a reference price and penalise prices above it.' }
+];
+
+const DemandModelSelector: React.FC<DemandModelSelectorProps> = ({ value, onChange, basePrice }) => {
+  const { currencySymbol } = useCurrency();
+  const selectedOption = modelOptions.find(option => option.type === value.type);
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const type = e.target.value as DemandModelType;
+    onChange(type === 'kinked' ? { ...DEFAULT_DEMAND_MODEL } : { ...value, type });
+  };
+
+  const handleParameterChange = (key: keyof DemandModel) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...value, [key]: parseFloat(e.target.value) });
+  };
+
+  // Clearing the field (or entering zero) falls back to today's price
+  const handleReferencePriceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const referencePrice = parseFloat(e.target.value);
+    onChange({ ...value, referencePrice: Number.isFinite(referencePrice) && referencePrice > 0 ? referencePrice : undefined });
+  };
+
+  const renderParameterSlider = (key: keyof DemandModel, label: string, min: number, max: number, step: number, fallback: number) => {
+    const parameterValue = (value[key] as number | undefined) ?? fallback;
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-xs">
+          <label htmlFor={`demand-${key}`} className="font-medium text-gray-700">{label}</label>
+          <span className="font-bold text-black">{parameterValue.toFixed(1)}</span>
+        </div>
+        <input
+          type="range"
+          id={`demand-${key}`}
+          min={min}
+          max={max}
+          step={step}
+          value={parameterValue}
+          onChange={handleParameterChange(key)}
+          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <label htmlFor="demand-model" className="text-sm font-semibold text-gray-900">
+        Demand Model
+      </label>
+      <select
+        id="demand-model"
+        value={value.type}
+        onChange={handleTypeChange}
+        className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      >
+        {modelOptions.map(option => (
+          <option key={option.type} value={option.type}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {selectedOption && (
+        <p className="text-xs text-gray-500">{selectedOption.description}</p>
+      )}
+
+      {value.type === 'kinked' ? (
+        <>
+          {renderParameterSlider('increaseElasticity', 'Elasticity (price increases)', 0.1, 4, 0.1, value.elasticity)}
+          {renderParameterSlider('decreaseElasticity', 'Elasticity (price decreases)', 0.1, 4, 0.1, value.elasticity)}
+        </>
+      ) : (
+        renderParameterSlider('elasticity', 'Price Elasticity', 0.1, 4, 0.1, DEFAULT_DEMAND_MODEL.elasticity)
+      )}
+
+      {value.type === 'referencePrice' && (
+        <>
+          <div className="space-y-2">
+            <label htmlFor="demand-referencePrice" className="text-xs font-medium text-gray-700">
+              Reference Price ({currencySymbol})
+            </label>
+            <input
+              type="number"
+              id="demand-referencePrice"
+              min={0}
+              step={0.01}
+              value={Math.round((value.referencePrice ?? basePrice) * 100) / 100}
+              onChange={handleReferencePriceChange}
+              className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          {renderParameterSlider('lossAversion', 'Loss Aversion', 1, 4, 0.1, 2)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DemandModelSelector;
@@ -6,6 +6,7 @@ import { Progress } from '@/components/ui/progress';
 import { Upload, FileText, CheckCircle, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { API_BASE_URL } from '@/lib/api';
+import { formatMoney, convertAmount } from '@/lib/currency';
 
 interface FileUploadProps {
   companyId: string;
@@ -180,16 +181,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ companyId, onUploadSuccess }) =
                   <h4 className="font-semibold text-green-800 mb-2">Extracted P&L Summary:</h4>
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
-                      <span className="font-medium">Revenue:</span> ${uploadedFile.data.revenue?.toLocaleString() || 'N/A'}
+                      <span className="font-medium">Revenue:</span> {uploadedFile.data.revenue != null ? formatMoney(convertAmount(uploadedFile.data.revenue)) : 'N/A'}
                     </div>
                     <div>
-                      <span className="font-medium">COGS:</span> ${uploadedFile.data.cogs?.toLocaleString() || 'N/A'}
+                      <span className="font-medium">COGS:</span> {uploadedFile.data.cogs != null ? formatMoney(convertAmount(uploadedFile.data.cogs)) : 'N/A'}
                     </div>
                     <div>
-                      <span className="font-medium">Labor Costs:</span> ${uploadedFile.data.labor_costs?.toLocaleString() || 'N/A'}
+                      <span className="font-medium">Labor Costs:</span> {uploadedFile.data.labor_costs != null ? formatMoney(convertAmount(uploadedFile.data.labor_costs)) : 'N/A'}
                     </div>
                     <div>
-                      <span className="font-medium">Overhead:</span> ${uploadedFile.data.overhead?.toLocaleString() || 'N/A'}
+                      <span className="font-medium">Overhead:</span> {uploadedFile.data.overhead != null ? formatMoney(convertAmount(uploadedFile.data.overhead)) : 'N/A'}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Target, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  GOAL_SEEK_LEVER_LABELS,
+  type GoalSeekLever,
+  type GoalSeekLeverId,
+  type GoalSeekMetric,
+  type GoalSeekSolution
+} from '@/utils/goalSeekUtils';
+import type { SensitivityScenario } from '@/utils/sensitivityUtils';
+import { formatMoney, getCurrencySymbol } from '@/lib/currency';
+import { useEngineWorker } from '@/hooks/use-engine-worker';
+
+interface GoalSeekPanelProps {
+  scenario: SensitivityScenario;
+  levers: GoalSeekLever[];
+  onApply: (scenario: SensitivityScenario) => void;
+}
+
+const metricOptions: Array<{ value: GoalSeekMetric; label: string }> = [
+  { value: 'monthlyProfit', label: 'Avg Monthly Profit' },
+  { value: 'annualDifference', label: 'Annual Impact (avg)' },
+  { value: 'roi', label: 'ROI' }
+];
+
+const formatMetric = (metric: GoalSeekMetric, value: number) =>
+  metric === 'roi' ? `${value.toFixed(1)}%` : formatMoney(value);
+
+// Price and marketing are amounts; automation and efficiency are percentages; turnover is turns per year
+const formatLeverValue = (id: GoalSeekLeverId, value: number) => {
+  if (id === 'price') return formatMoney(value, { decimals: 2 });
+  if (id === 'marketing') return formatMoney(value);
+  if (id === 'inventoryTurnoverRate') return `${value.toFixed(1)}x`;
+  return `${Math.round(value)}%`;
+};
+
+const GoalSeekPanel: React.FC<GoalSeekPanelProps> = ({ scenario, levers, onApply }) => {
+  const [metric, setMetric] = useState<GoalSeekMetric>('monthlyProfit');
+  // The target opens just above where the company is today, in its own currency; null until the worker replies
+  const [targetValue, setTargetValue] = useState<number | null>(null);
+  const [freeLevers, setFreeLevers] = useState<GoalSeekLeverId[]>(levers.map(lever => lever.id));
+  const [solution, setSolution] = useState<GoalSeekSolution | null>(null);
+  // The grid search runs in the engine worker so the page stays usable while it solves
+  const goalSeekJob = useEngineWorker('goalSeek');
+  const { result: solvedSolution, cancel: cancelSolve } = goalSeekJob;
+
+  useEffect(() => {
+    setSolution(solvedSolution);
+  }, [solvedSolution]);
+
+  // Opening targets are worked out in the worker too, for the sliders as they are when the metric is picked
+  const scenarioRef = useRef(scenario);
+  scenarioRef.current = scenario;
+  const targetJob = useEngineWorker('goalSeekTarget');
+  const { result: defaultTarget, run: runDefaultTarget } = targetJob;
+
+  useEffect(() => {
+    runDefaultTarget({ scenario: scenarioRef.current, metric });
+  }, [runDefaultTarget, metric]);
+
+  useEffect(() => {
+    if (defaultTarget?.metric === metric) setTargetValue(defaultTarget.value);
+  }, [defaultTarget, metric]);
+
+  // Inputs changed while solving make the pending answer stale
+  const resetSolution = () => {
+    cancelSolve();
+    setSolution(null);
+  };
+
+  // So do slider moves: applying a solution from the old sliders would quietly undo them
+  useEffect(() => {
+    cancelSolve();
+    setSolution(null);
+  }, [scenario, cancelSolve]);
+
+  const handleMetricChange = (nextMetric: GoalSeekMetric) => {
+    setMetric(nextMetric);
+    setTargetValue(null);
+    resetSolution();
+  };
+
+  const toggleLever = (id: GoalSeekLeverId) => {
+    setFreeLevers(prev => prev.includes(id) ? prev.filter(leverId => leverId !== id) : [...prev, id]);
+    resetSolution();
+  };
+
+  const handleSolve = () => {
+    if (targetValue === null) return;
+    const activeLevers = levers.filter(lever => freeLevers.includes(lever.id));
+    setSolution(null);
+    goalSeekJob.run({ scenario, target: { metric, value: targetValue }, levers: activeLevers });
+  };
+
+  const handleApply = () => {
+    if (!solution) return;
+    onApply(solution.scenario);
+    setSolution(null);
+  };
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-xl professional-heading flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          Goal Seek
+        </CardTitle>
+        <p className="text-sm professional-text">
+          Enter a target and pick which levers may move; the solver finds the cheapest combination that reaches it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={metric}
+            onChange={(e) => handleMetricChange(e.target.value as GoalSeekMetric)}
+            className="p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {metricOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <div className="relative">
+            <span className="absolute left-2 top-2 text-sm text-gray-500">
+              {metric === 'roi' ? '%' : getCurrencySymbol()}
+            </span>
+            <input
+              type="number"
+              value={targetValue ?? ''}
+              placeholder={targetJob.isRunning ? 'Calculating...' : ''}
+              disabled={targetValue === null}
+              onChange={(e) => { setTargetValue(parseFloat(e.target.value) || 0); resetSolution(); }}
+              className="w-full p-2 pl-10 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm text-gray-600">Free levers</div>
+          {levers.map(lever => (
+            <label key={lever.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={freeLevers.includes(lever.id)}
+                onChange={() => toggleLever(lever.id)}
+                className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+              />
+              {GOAL_SEEK_LEVER_LABELS[lever.id]}
+            </label>
+          ))}
+        </div>
+
+        {goalSeekJob.isRunning ? (
+          <div className="space-y-2">
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-purple-500 transition-all duration-200" style={{ width: `${Math.round((goalSeekJob.progress ?? 0) * 100)}%` }} />
+            </div>
+            <Button variant="outline" onClick={cancelSolve} className="w-full">
+              Cancel ({Math.round((goalSeekJob.progress ?? 0) * 100)}%)
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleSolve} disabled={freeLevers.length === 0 || targetValue === null} className="w-full professional-button">
+            Solve
+          </Button>
+        )}
+        {goalSeekJob.error && <p className="text-xs text-red-600">The solver failed: {goalSeekJob.error}</p>}
+
+        {solution && (
+          <div className={`rounded-lg p-4 space-y-3 ${solution.feasible ? 'bg-green-50' : 'bg-red-50'}`}>
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              {solution.feasible ? (
+                <CheckCircle className="w-4 h-4 text-green-600" />
+              ) : (
+                <AlertCircle className="w-4 h-4 text-red-600" />
+              )}
+              <span className={solution.feasible ? 'text-green-800' : 'text-red-800'}>
+                {solution.feasible
+                  ? `Target reached: ${formatMetric(metric, solution.achieved)}`
+                  : `Target not reachable; best found is ${formatMetric(metric, solution.achieved)}`}
+              </span>
+            </div>
+
+            {solution.changes.length > 0 ? (
+              <>
+                <div className="space-y-1">
+                  {solution.changes.map(change => (
+                    <div key={change.id} className="flex justify-between text-sm">
+                      <span className="text-gray-700">{change.label}:</span>
+                      <span className="font-semibold text-gray-900">{formatLeverValue(change.id, change.from)} → {formatLeverValue(change.id, change.to)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-sm border-t border-gray-200 pt-1">
+                    <span className="text-gray-700">Monthly investment:</span>
+                    <span className="font-semibold text-gray-900">{formatMoney(solution.monthlyInvestment)}</span>
+                  </div>
+                </div>
+                <ul className="space-y-1 text-xs text-gray-600 list-disc pl-4">
+                  {solution.explanation.map((line, index) => (
+                    <li key={index}>{line}</li>
+                  ))}
+                </ul>
+                <Button variant="outline" size="sm" onClick={handleApply} className="w-full">
+                  Apply to Sliders
+                </Button>
+              </>
+            ) : (
+              <p className="text-xs text-gray-600">The current slider settings are already the cheapest option.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GoalSeekPanel;
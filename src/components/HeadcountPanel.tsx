@@ -0,0 +1,228 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, RotateCcw, Users } from 'lucide-react';
+import { calculateLaborAutomationImpact, type PLData } from '@/utils/simulationUtils';
+import {
+  createDefaultHeadcount,
+  createLaborRole,
+  getHeadcountTotals,
+  MAX_ROLES,
+  type HeadcountModel,
+  type LaborRole,
+  type AutomationInitiative,
+  type WorkforceDecision
+} from '@/utils/headcountUtils';
+import { formatMoney, getCurrencySymbol } from '@/lib/currency';
+
+interface HeadcountPanelProps {
+  baselineData: PLData;
+  headcount: HeadcountModel | null; // null: labor is split across the default role mix
+  onChange: (headcount: HeadcountModel | null) => void;
+  automationLevel: number;
+}
+
+const HeadcountPanel: React.FC<HeadcountPanelProps> = ({ baselineData, headcount, onChange, automationLevel }) => {
+  const impact = useMemo(
+    () => calculateLaborAutomationImpact(baselineData, automationLevel),
+    [baselineData, automationLevel]
+  );
+
+  if (!headcount) {
+    return (
+      <Card className="professional-card">
+        <CardHeader>
+          <CardTitle className="text-2xl professional-heading">Headcount</CardTitle>
+          <p className="text-sm professional-text">
+            Automation savings assume a typical role mix for {formatMoney(baselineData.monthlyLabor)}/month of labor.
+            Enter your roster to base savings on your own roles, FTEs and loaded costs.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => onChange(createDefaultHeadcount(baselineData))} className="flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Edit Roster
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totals = getHeadcountTotals(headcount);
+
+  const updateRole = (id: string, changes: Partial<LaborRole>) => {
+    onChange({ ...headcount, roles: headcount.roles.map(role => (role.id === id ? { ...role, ...changes } : role)) });
+  };
+
+  const removeRole = (id: string) => {
+    onChange({
+      roles: headcount.roles.filter(role => role.id !== id),
+      initiatives: headcount.initiatives.map(initiative => ({ ...initiative, roleIds: initiative.roleIds.filter(roleId => roleId !== id) }))
+    });
+  };
+
+  const updateInitiative = (id: string, changes: Partial<AutomationInitiative>) => {
+    onChange({ ...headcount, initiatives: headcount.initiatives.map(initiative => (initiative.id === id ? { ...initiative, ...changes } : initiative)) });
+  };
+
+  const toggleInitiativeRole = (initiative: AutomationInitiative, roleId: string) => {
+    const roleIds = initiative.roleIds.includes(roleId)
+      ? initiative.roleIds.filter(id => id !== roleId)
+      : [...initiative.roleIds, roleId];
+    updateInitiative(initiative.id, { roleIds });
+  };
+
+  const renderNumberInput = (role: LaborRole, key: 'fte' | 'monthlyCostPerFte', label: string, step: number) => (
+    <label className="text-xs text-gray-600 space-y-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Math.round(role[key] * 10) / 10}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (Number.isFinite(value) && value >= 0) updateRole(role.id, { [key]: value });
+        }}
+        className="w-full p-1 text-sm text-gray-900 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+    </label>
+  );
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-2xl professional-heading">Headcount</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onChange(null)} className="flex items-center gap-1">
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={headcount.roles.length >= MAX_ROLES}
+              onClick={() => onChange({ ...headcount, roles: [...headcount.roles, createLaborRole(headcount.roles)] })}
+              className="flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add Role
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm professional-text">
+          The roster sets the labor bill. Automation frees the automatable hours of roles its initiatives cover;
+          reduced roles save their full cost, redeployed roles save only the backfill and overtime they avoid.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {headcount.roles.map(role => (
+          <div key={role.id} className="border border-gray-200 rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                aria-label="Role name"
+                value={role.name}
+                onChange={(e) => updateRole(role.id, { name: e.target.value })}
+                className="flex-1 p-1 text-sm font-semibold text-gray-900 border border-transparent rounded hover:border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <span className="text-xs text-gray-500">{formatMoney(role.fte * role.monthlyCostPerFte)}/mo</span>
+              {headcount.roles.length > 1 && (
+                <button
+                  onClick={() => removeRole(role.id)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label="Remove role"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {renderNumberInput(role, 'fte', 'FTEs', 0.5)}
+              {renderNumberInput(role, 'monthlyCostPerFte', `Loaded Cost / FTE (${getCurrencySymbol()})`, 100)}
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Automatable ({Math.round(role.automatableShare * 100)}%)</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={role.automatableShare}
+                  onChange={(e) => updateRole(role.id, { automatableShare: parseFloat(e.target.value) })}
+                  className="w-full h-2 mt-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+                />
+              </label>
+              <label className="text-xs text-gray-600 space-y-1">
+                <span>Freed Hours</span>
+                <select
+                  value={role.decision}
+                  onChange={(e) => updateRole(role.id, { decision: e.target.value as WorkforceDecision })}
+                  className="w-full p-1 text-sm text-gray-900 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="reduce">Reduce headcount</option>
+                  <option value="redeploy">Redeploy</option>
+                </select>
+              </label>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Automation Initiatives</h4>
+          {headcount.initiatives.map(initiative => (
+            <div key={initiative.id} className="flex flex-wrap items-center gap-2 text-xs">
+              <label className="flex items-center gap-2 w-56 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={initiative.enabled}
+                  onChange={(e) => updateInitiative(initiative.id, { enabled: e.target.checked })}
+                  className="accent-purple-600"
+                />
+                {initiative.name}
+              </label>
+              {headcount.roles.map(role => (
+                <button
+                  key={role.id}
+                  onClick={() => toggleInitiativeRole(initiative, role.id)}
+                  disabled={!initiative.enabled}
+                  className={`px-2 py-1 rounded-full border transition-colors duration-200 disabled:opacity-50 ${
+                    initiative.roleIds.includes(role.id)
+                      ? 'bg-purple-100 border-purple-300 text-purple-800'
+                      : 'bg-white border-gray-300 text-gray-500 hover:border-gray-400'
+                  }`}
+                >
+                  {role.name}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">Headcount</div>
+            <div className="text-lg font-bold text-gray-900">{totals.fte.toFixed(1)} FTE</div>
+            <div className="text-xs text-gray-500">{formatMoney(totals.monthlyCost)}/mo</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">FTE Reduced</div>
+            <div className="text-lg font-bold text-gray-900">{impact.fteReduced.toFixed(1)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">FTE Redeployed</div>
+            <div className="text-lg font-bold text-gray-900">{impact.fteRedeployed.toFixed(1)}</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-xs text-gray-600">Labor Savings at {automationLevel}%</div>
+            <div className={`text-lg font-bold ${impact.laborCostReduction >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatMoney(impact.laborCostReduction)}/mo
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HeadcountPanel;
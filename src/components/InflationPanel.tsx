@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { getInflationFactors, type InflationAssumptions } from '@/utils/inflationUtils';
+
+interface InflationPanelProps {
+  assumptions: InflationAssumptions;
+  onChange: (assumptions: InflationAssumptions) => void;
+  monthLabels: string[];
+}
+
+const RATE_FIELDS: Array<{ key: keyof Omit<InflationAssumptions, 'passThrough'>; label: string; color: string }> = [
+  { key: 'cogs', label: 'COGS Inputs', color: '#F59E0B' },
+  { key: 'wages', label: 'Wages', color: '#EF4444' },
+  { key: 'overhead', label: 'Overhead', color: '#6B7280' },
+  { key: 'price', label: 'Prices', color: 'hsl(220, 70%, 50%)' }
+];
+
+const InflationPanel: React.FC<InflationPanelProps> = ({ assumptions, onChange, monthLabels }) => {
+  // Cumulative index per category, 100 = today
+  const chartData = useMemo(() => monthLabels.map((month, index) => {
+    const factors = getInflationFactors(assumptions, index);
+    return {
+      month,
+      cogs: Math.round(factors.cogs * 1000) / 10,
+      wages: Math.round(factors.wages * 1000) / 10,
+      overhead: Math.round(factors.overhead * 1000) / 10,
+      price: Math.round(factors.price * 1000) / 10
+    };
+  }), [assumptions, monthLabels]);
+
+  const labelFor = (key: string) => RATE_FIELDS.find(field => field.key === key)?.label || key;
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Inflation &amp; Wage Growth</CardTitle>
+        <p className="text-sm professional-text">
+          Each cost category compounds at its own annual rate. Wage growth also raises the labor that automation saves.
+          Pass-through recovers part of each month's cost increase through price.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {RATE_FIELDS.map(field => (
+            <label key={field.key} htmlFor={`inflation-${field.key}`} className="text-xs text-gray-600 space-y-1">
+              <span>{field.label} (%/yr)</span>
+              <input
+                type="number"
+                id={`inflation-${field.key}`}
+                step="0.5"
+                value={Math.round(assumptions[field.key] * 1000) / 10}
+                onChange={(e) => onChange({ ...assumptions, [field.key]: (parseFloat(e.target.value) || 0) / 100 })}
+                className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs">
+            <label htmlFor="inflation-pass-through" className="text-gray-600">Cost Pass-through to Price</label>
+            <span className="font-bold text-black">{Math.round(assumptions.passThrough * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            id="inflation-pass-through"
+            min={0}
+            max={1}
+            step={0.05}
+            value={assumptions.passThrough}
+            onChange={(e) => onChange({ ...assumptions, passThrough: parseFloat(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+          />
+        </div>
+
+        <div className="w-full h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} width={40} />
+              <Tooltip formatter={(value, name) => [Number(value).toFixed(1), labelFor(name as string)]} />
+              <Legend formatter={(value) => labelFor(value)} />
+              {RATE_FIELDS.map(field => (
+                <Line key={field.key} type="monotone" dataKey={field.key} stroke={field.color} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InflationPanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  INTERVENTION_LABELS,
+  DEFAULT_INTERVENTION_SCHEDULE,
+  type InterventionLeverId,
+  type InterventionSchedule,
+  type InterventionTimeline as Timeline
+} from '@/utils/timelineUtils';
+
+interface InterventionTimelineProps {
+  timeline: Timeline;
+  onChange: (timeline: Timeline) => void;
+  monthLabels: string[];
+  activeLevers: InterventionLeverId[]; // levers moved away from baseline
+}
+
+const LEVER_ORDER: InterventionLeverId[] = ['price', 'laborAutomationLevel', 'productionEfficiency', 'inventoryTurnoverRate'];
+
+const InterventionTimeline: React.FC<InterventionTimelineProps> = ({ timeline, onChange, monthLabels, activeLevers }) => {
+  const horizonMonths = monthLabels.length;
+
+  const updateSchedule = (lever: InterventionLeverId, changes: Partial<InterventionSchedule>) => {
+    onChange({ ...timeline, [lever]: { ...(timeline[lever] || DEFAULT_INTERVENTION_SCHEDULE), ...changes } });
+  };
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Intervention Timeline</CardTitle>
+        <p className="text-sm professional-text">
+          Set when each change begins and how many months it takes to reach full effect. Running costs start with the rollout.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {LEVER_ORDER.map(lever => {
+          const schedule = timeline[lever] || DEFAULT_INTERVENTION_SCHEDULE;
+          const isActive = activeLevers.includes(lever);
+          const startOffset = ((schedule.startMonth - 1) / horizonMonths) * 100;
+          const rampWidth = Math.min(schedule.rampMonths, horizonMonths - schedule.startMonth + 1) / horizonMonths * 100;
+
+          return (
+            <div key={lever} className={`space-y-2 ${isActive ? '' : 'opacity-50'}`}>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="font-semibold text-gray-900">
+                  {INTERVENTION_LABELS[lever]}
+                  {!isActive && <span className="ml-2 text-xs font-normal text-gray-500">(at baseline)</span>}
+                </span>
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <label htmlFor={`start-${lever}`}>Start</label>
+                  <select
+                    id={`start-${lever}`}
+                    value={schedule.startMonth}
+                    onChange={(e) => updateSchedule(lever, { startMonth: parseInt(e.target.value) })}
+                    className="p-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  >
+                    {monthLabels.map((month, index) => (
+                      <option key={month} value={index + 1}>{month}</option>
+                    ))}
+                  </select>
+                  <label htmlFor={`ramp-${lever}`}>Ramp</label>
+                  <input
+                    type="range"
+                    id={`ramp-${lever}`}
+                    min={0}
+                    max={12}
+                    value={schedule.rampMonths}
+                    onChange={(e) => updateSchedule(lever, { rampMonths: parseInt(e.target.value) })}
+                    className="w-20 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+                  />
+                  <span className="w-10 font-bold text-black">{schedule.rampMonths} mo</span>
+                </div>
+              </div>
+              {/* Gantt bar: ramp-up segment, then full effect to the end of the horizon */}
+              <div className="relative h-3 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="absolute top-0 h-3 bg-gradient-to-r from-purple-200 to-purple-500"
+                  style={{ left: `${startOffset}%`, width: `${rampWidth}%` }}
+                />
+                <div
+                  className="absolute top-0 h-3 bg-purple-500"
+                  style={{ left: `${startOffset + rampWidth}%`, right: 0 }}
+                />
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{monthLabels[0]}</span>
+          <span>{monthLabels[monthLabels.length - 1]}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InterventionTimeline;
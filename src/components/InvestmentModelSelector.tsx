@@ -0,0 +1,105 @@
+import React from 'react';
+import type { InvestmentModel, InvestmentMode, DepreciationMethod, FinancingType } from '@/utils/investmentUtils';
+import { formatMoney } from '@/lib/currency';
+
+interface InvestmentModelSelectorProps {
+  value: InvestmentModel;
+  onChange: (model: InvestmentModel) => void;
+  upfrontCapex: number;
+}
+
+const financingDescriptions: Record<FinancingType, string> = {
+  cash: 'Paid in full in month one; profit carries depreciation only.',
+  loan: 'Down payment in month one, the rest repaid monthly; profit carries depreciation and interest.',
+  lease: 'Level monthly lease payments expensed in profit; the asset stays off the books.'
+};
+
+const InvestmentModelSelector: React.FC<InvestmentModelSelectorProps> = ({ value, onChange, upfrontCapex }) => {
+  const update = (changes: Partial<InvestmentModel>) => onChange({ ...value, ...changes });
+
+  const selectClassName = 'w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+  const renderParameterSlider = (
+    key: keyof InvestmentModel,
+    label: string,
+    min: number,
+    max: number,
+    step: number,
+    format: (value: number) => string
+  ) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <label htmlFor={`investment-${key}`} className="font-medium text-gray-700">{label}</label>
+        <span className="font-bold text-black">{format(value[key] as number)}</span>
+      </div>
+      <input
+        type="range"
+        id={`investment-${key}`}
+        min={min}
+        max={max}
+        step={step}
+        value={value[key] as number}
+        onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <label htmlFor="investment-mode" className="text-sm font-semibold text-gray-900">
+        Automation Investment
+      </label>
+      <select
+        id="investment-mode"
+        value={value.mode}
+        onChange={(e) => update({ mode: e.target.value as InvestmentMode })}
+        className={selectClassName}
+      >
+        <option value="monthlyFee">Monthly fee per tier</option>
+        <option value="capex">Capital project (capex)</option>
+      </select>
+
+      {value.mode === 'capex' && (
+        <>
+          <div className="flex items-center justify-between text-xs bg-gray-50 rounded-lg p-2">
+            <span className="text-gray-600">Up-front capex</span>
+            <span className="font-bold text-black">{formatMoney(upfrontCapex)}</span>
+          </div>
+          {renderParameterSlider('upfrontCostMultiple', 'Cost (months of equivalent fee)', 12, 60, 6, v => `${v} mo`)}
+          {renderParameterSlider('usefulLifeYears', 'Useful Life', 1, 10, 1, v => `${v} yr`)}
+          <select
+            aria-label="Depreciation method"
+            value={value.depreciationMethod}
+            onChange={(e) => update({ depreciationMethod: e.target.value as DepreciationMethod })}
+            className={selectClassName}
+          >
+            <option value="straightLine">Straight-line depreciation</option>
+            <option value="decliningBalance">Double-declining balance</option>
+          </select>
+          <select
+            aria-label="Financing"
+            value={value.financing}
+            onChange={(e) => update({ financing: e.target.value as FinancingType })}
+            className={selectClassName}
+          >
+            <option value="cash">Pay cash</option>
+            <option value="loan">Finance with a loan</option>
+            <option value="lease">Lease</option>
+          </select>
+          <p className="text-xs text-gray-500">{financingDescriptions[value.financing]}</p>
+          {value.financing !== 'cash' && (
+            <>
+              {renderParameterSlider('interestRate', 'Interest Rate', 0, 0.2, 0.005, v => `${(v * 100).toFixed(1)}%`)}
+              {renderParameterSlider('termMonths', 'Term', 12, 84, 6, v => `${v} mo`)}
+            </>
+          )}
+          {value.financing === 'loan' &&
+            renderParameterSlider('downPaymentPercent', 'Down Payment', 0, 0.5, 0.05, v => `${Math.round(v * 100)}%`)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InvestmentModelSelector;
@@ -0,0 +1,176 @@
+import React, { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Target } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createDefaultChannels,
+  calculateChannelLift,
+  getChannelTotal,
+  optimizeChannelAllocation,
+  type MarketingChannel
+} from '@/utils/marketingUtils';
+import { formatMoney, formatCompactMoney } from '@/lib/currency';
+
+interface MarketingChannelsPanelProps {
+  channels: MarketingChannel[] | null; // null = single marketing spend slider
+  onChannelsChange: (channels: MarketingChannel[] | null) => void;
+  baselineMarketingSpend: number;
+  monthlyRevenue: number;
+  horizonMonths: number;
+}
+
+const CHANNEL_COLORS = ['hsl(220, 70%, 50%)', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444'];
+
+const MarketingChannelsPanel: React.FC<MarketingChannelsPanelProps> = ({
+  channels,
+  onChannelsChange,
+  baselineMarketingSpend,
+  monthlyRevenue,
+  horizonMonths
+}) => {
+  const [budget, setBudget] = useState(Math.max(baselineMarketingSpend, 10000));
+  const { toast } = useToast();
+
+  const maxChannelSpend = Math.max(20000, baselineMarketingSpend * 2);
+
+  // Response curves: revenue lift at each spend level, per channel
+  const curveData = useMemo(() => {
+    if (!channels) return [];
+    return Array.from({ length: 21 }, (_, i) => {
+      const spend = (maxChannelSpend / 20) * i;
+      const point: Record<string, number> = { spend };
+      channels.forEach(channel => {
+        point[channel.id] = Math.round(calculateChannelLift(channel, spend) * 1000) / 10;
+      });
+      return point;
+    });
+  }, [channels, maxChannelSpend]);
+
+  const updateSpend = (id: string, spend: number) => {
+    onChannelsChange(channels.map(channel => (channel.id === id ? { ...channel, spend } : channel)));
+  };
+
+  const handleOptimize = () => {
+    const allocation = optimizeChannelAllocation(channels, budget, monthlyRevenue, horizonMonths);
+    onChannelsChange(allocation.channels);
+    toast({
+      title: "Optimal allocation applied",
+      description: allocation.unallocatedBudget > 0
+        ? `${formatMoney(allocation.allocatedBudget)} allocated; the remaining ${formatMoney(allocation.unallocatedBudget)} would not pay back.`
+        : `${formatMoney(allocation.allocatedBudget)} allocated across ${allocation.channels.filter(channel => channel.spend > 0).length} channels.`
+    });
+  };
+
+  if (!channels) {
+    return (
+      <Card className="professional-card">
+        <CardHeader>
+          <CardTitle className="text-2xl professional-heading">Marketing Channel Mix</CardTitle>
+          <p className="text-sm professional-text">
+            Marketing is modelled as one spend figure. Split it across channels to use per-channel response curves, saturation and lag.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            onClick={() => onChannelsChange(createDefaultChannels(baselineMarketingSpend))}
+            className="flex items-center gap-2"
+          >
+            <Target className="w-4 h-4" />
+            Allocate by Channel
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-2xl professional-heading">Marketing Channel Mix</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => onChannelsChange(null)}>
+            Use Single Spend
+          </Button>
+        </div>
+        <p className="text-sm professional-text">
+          Each channel saturates at its own maximum lift and takes effect after its lag. Total spend: {formatMoney(getChannelTotal(channels))}/month.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {channels.map((channel, index) => (
+          <div key={channel.id} className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <label htmlFor={`channel-${channel.id}`} className="font-medium text-gray-700 flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CHANNEL_COLORS[index % CHANNEL_COLORS.length] }} />
+                {channel.name}
+                <span className="text-gray-400">
+                  max +{Math.round(channel.maxRevenueLift * 100)}%{channel.lagMonths > 0 ? `, ${channel.lagMonths}-mo lag` : ''}
+                </span>
+              </label>
+              <span className="font-bold text-black">{formatMoney(channel.spend)}</span>
+            </div>
+            <input
+              type="range"
+              id={`channel-${channel.id}`}
+              min={0}
+              max={maxChannelSpend}
+              step={100}
+              value={channel.spend}
+              onChange={(e) => updateSpend(channel.id, parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+            />
+          </div>
+        ))}
+
+        <div className="w-full h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curveData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="spend" tickFormatter={(value) => formatCompactMoney(value)} tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => `${value}%`} tick={{ fontSize: 12 }} width={40} />
+              <Tooltip
+                labelFormatter={(value) => `${formatMoney(Number(value))}/month`}
+                formatter={(value, name) => [`+${value}%`, channels.find(channel => channel.id === name)?.name || name]}
+              />
+              <Legend formatter={(value) => channels.find(channel => channel.id === value)?.name || value} />
+              {channels.map((channel, index) => (
+                <Line
+                  key={channel.id}
+                  type="monotone"
+                  dataKey={channel.id}
+                  stroke={CHANNEL_COLORS[index % CHANNEL_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="flex items-end gap-3">
+          <label htmlFor="channel-budget" className="flex-1 text-xs text-gray-600 space-y-1">
+            <span>Total Budget ($/month)</span>
+            <input
+              type="number"
+              id="channel-budget"
+              min={0}
+              step={500}
+              value={budget}
+              onChange={(e) => setBudget(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </label>
+          <Button onClick={handleOptimize} className="professional-button flex items-center gap-2">
+            <Target className="w-4 h-4" />
+            Optimal Allocation
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarketingChannelsPanel;
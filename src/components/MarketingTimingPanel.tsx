@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  buildMarketingSpendPath,
+  applyAdstock,
+  type MarketingAdstock,
+  type MarketingSpendChange
+} from '@/utils/marketingUtils';
+import { formatMoney, formatCompactMoney, getCurrencySymbol } from '@/lib/currency';
+
+interface MarketingTimingPanelProps {
+  adstock: MarketingAdstock;
+  onAdstockChange: (adstock: MarketingAdstock) => void;
+  startMonth: number;
+  onStartMonthChange: (month: number) => void;
+  schedule: MarketingSpendChange[];
+  onScheduleChange: (schedule: MarketingSpendChange[]) => void;
+  baselineSpend: number;
+  marketingValue: number;
+  monthLabels: string[];
+}
+
+const MarketingTimingPanel: React.FC<MarketingTimingPanelProps> = ({
+  adstock,
+  onAdstockChange,
+  startMonth,
+  onStartMonthChange,
+  schedule,
+  onScheduleChange,
+  baselineSpend,
+  marketingValue,
+  monthLabels
+}) => {
+  const horizonMonths = monthLabels.length;
+
+  const chartData = useMemo(() => {
+    const spendPath = buildMarketingSpendPath(baselineSpend, marketingValue, horizonMonths, startMonth, schedule);
+    const effectiveSpend = applyAdstock(spendPath, baselineSpend, adstock);
+    return monthLabels.map((month, index) => ({
+      month,
+      spend: Math.round(spendPath[index]),
+      effective: Math.round(effectiveSpend[index])
+    }));
+  }, [baselineSpend, marketingValue, horizonMonths, startMonth, schedule, adstock, monthLabels]);
+
+  const updateChange = (index: number, changes: Partial<MarketingSpendChange>) => {
+    onScheduleChange(schedule.map((change, i) => (i === index ? { ...change, ...changes } : change)));
+  };
+
+  const renderSlider = (id: string, label: string, value: number, max: number, format: string, onChange: (value: number) => void) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <label htmlFor={id} className="font-medium text-gray-700">{label}</label>
+        <span className="font-bold text-black">{format}</span>
+      </div>
+      <input
+        type="range"
+        id={id}
+        min={0}
+        max={max}
+        step={1}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+      />
+    </div>
+  );
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Marketing Timing</CardTitle>
+        <p className="text-sm professional-text">
+          Campaigns take time to land and keep working after spend stops. Effective spend drives revenue; paid spend hits profit straight away.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {renderSlider('marketing-lag', 'Lag', adstock.lagMonths, 6, `${adstock.lagMonths} mo`,
+            lagMonths => onAdstockChange({ ...adstock, lagMonths }))}
+          {renderSlider('marketing-half-life', 'Decay Half-life', adstock.halfLifeMonths, 12,
+            adstock.halfLifeMonths === 0 ? 'None' : `${adstock.halfLifeMonths} mo`,
+            halfLifeMonths => onAdstockChange({ ...adstock, halfLifeMonths }))}
+          <label htmlFor="marketing-start" className="text-xs text-gray-600 space-y-1">
+            <span className="font-medium text-gray-700">New Spend Starts</span>
+            <select
+              id="marketing-start"
+              value={startMonth}
+              onChange={(e) => onStartMonthChange(parseInt(e.target.value))}
+              className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              {monthLabels.map((month, index) => (
+                <option key={month} value={index + 1}>{month}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Scheduled Spend Changes</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onScheduleChange([...schedule, { month: Math.min(horizonMonths, startMonth + 6), spend: baselineSpend }])}
+              className="flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add Change
+            </Button>
+          </div>
+          {schedule.map((change, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">From</span>
+              <select
+                aria-label="Change month"
+                value={change.month}
+                onChange={(e) => updateChange(index, { month: parseInt(e.target.value) })}
+                className="p-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {monthLabels.map((month, monthIndex) => (
+                  <option key={month} value={monthIndex + 1}>{month}</option>
+                ))}
+              </select>
+              <span className="text-gray-600">spend {getCurrencySymbol()}</span>
+              <input
+                type="number"
+                min={0}
+                step={500}
+                value={change.spend}
+                onChange={(e) => updateChange(index, { spend: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-28 p-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => onScheduleChange(schedule.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600"
+                aria-label="Remove spend change"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="w-full h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} tick={{ fontSize: 12 }} width={40} />
+              <Tooltip
+                formatter={(value, name) => [
+                  formatMoney(Number(value)),
+                  name === 'spend' ? 'Paid Spend' : 'Effective Spend'
+                ]}
+              />
+              <Line type="stepAfter" dataKey="spend" stroke="hsl(var(--muted-foreground))" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+              <Line type="monotone" dataKey="effective" stroke="hsl(220, 70%, 50%)" strokeWidth={3} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarketingTimingPanel;
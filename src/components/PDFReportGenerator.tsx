@@ -2,6 +2,10 @@ import React, { useRef } from 'react';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
+import { calculateDiscountedMetrics } from '@/utils/financeUtils';
+import { calculateBreakEven } from '@/utils/breakEvenUtils';
+import { formatMoney, formatCompactMoney } from '@/lib/currency';
+import { ASSUMPTION_DEFINITIONS, formatAssumptionValue, loadAssumptionOverrides, resolveAssumptions } from '@/utils/assumptionsUtils';
 
 interface SimulationData {
   baseline: {
@@ -54,6 +58,9 @@ interface SimulationData {
   };
 }
 
+// jsPDF's built-in fonts need plain-text money
+const pdfMoney = (value: number) => formatMoney(value, { plainText: true });
+
 interface PDFReportGeneratorProps {
   data: SimulationData;
   companyName: string;
@@ -78,6 +85,11 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
 
     onGenerate();
 
+    // Engine assumptions the Sandbox ran with, including its discount rate
+    const assumptionOverrides = loadAssumptionOverrides();
+    const assumptions = resolveAssumptions(assumptionOverrides);
+    const discountRate = assumptions.discountRate;
+
     const pdf = new jsPDF('p', 'mm', 'a4');
     const pageWidth = pdf.internal.pageSize.getWidth();
     const pageHeight = pdf.internal.pageSize.getHeight();
@@ -120,11 +132,11 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
     pdf.setFontSize(10);
     pdf.setTextColor(0, 0, 0);
     const summaryText = [
-      `Total Annual Savings: $${totalSavings.toLocaleString()}`,
+      `Total Annual Savings: ${pdfMoney(totalSavings)}`,
       `3-Year ROI: ${(data.roi_metrics.three_year_roi || data.roi_metrics.roi_percentage || 0).toFixed(0)}%`,
       `Payback Period: ${data.roi_metrics.payback_months} months`,
       `Confidence Score: ${data.summary_metrics?.confidence_score || 87}%`,
-      `Total Investment Required: $${data.roi_metrics.total_investment.toLocaleString()}`
+      `Total Investment Required: ${pdfMoney(data.roi_metrics.total_investment)}`
     ];
 
     summaryText.forEach((text, index) => {
@@ -132,6 +144,69 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
     });
     currentY += 40;
 
+    // Discounted Cash Flow Analysis: up-front investment against the backend's monthly projected savings.
+    // These are assessment figures, not the Sandbox scenario, so the section says so.
+    const projectedSavings = data.timeline_projections.map(projection => projection.savings || 0);
+    const discountedMetrics = calculateDiscountedMetrics(
+      [0, ...projectedSavings],
+      [data.roi_metrics.total_investment, ...projectedSavings.map(() => 0)],
+      discountRate
+    );
+
+    checkPageBreak(50);
+    pdf.setFontSize(14);
+    pdf.setTextColor(139, 92, 246);
+    pdf.text('Discounted Cash Flow Analysis', 20, currentY);
+    currentY += 10;
+
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+    const discountedText = [
+      'Basis: the assessment savings projection against total investment, not a Sandbox scenario',
+      `Discount Rate: ${(discountRate * 100).toFixed(1)}% per year over ${projectedSavings.length} months`,
+      `Net Present Value: ${pdfMoney(discountedMetrics.npv)}`,
+      `Internal Rate of Return: ${discountedMetrics.irr !== null ? `${discountedMetrics.irr}%` : 'n/a'}`,
+      `Discounted Payback: ${discountedMetrics.discountedPaybackMonth !== null ? `${discountedMetrics.discountedPaybackMonth} months` : 'Not reached in projection'}`,
+      `Profitability Index: ${discountedMetrics.profitabilityIndex !== null ? discountedMetrics.profitabilityIndex.toFixed(2) : 'n/a'}`
+    ];
+
+    discountedText.forEach((text, index) => {
+      pdf.text(text, 20, currentY + (index * 6));
+    });
+    currentY += 46;
+
+    // Break-Even Analysis: COGS is variable, labor and overhead are fixed
+    const breakEvenScenarios = [
+      { label: 'Current', costs: data.baseline.costs },
+      { label: 'Optimized', costs: data.optimized.costs }
+    ].map(({ label, costs }) => ({
+      label,
+      analysis: calculateBreakEven({
+        revenue: data.baseline.revenue,
+        variableCosts: costs.cogs,
+        fixedCosts: costs.labor + costs.overhead
+      })
+    }));
+
+    checkPageBreak(45);
+    pdf.setFontSize(14);
+    pdf.setTextColor(139, 92, 246);
+    pdf.text('Break-Even Analysis', 20, currentY);
+    currentY += 10;
+
+    pdf.setFontSize(10);
+    pdf.setTextColor(0, 0, 0);
+    const breakEvenText = breakEvenScenarios.map(({ label, analysis }) =>
+      `${label}: contribution margin ${(analysis.contributionMarginRatio * 100).toFixed(1)}%, ` +
+      `break-even revenue ${analysis.breakEvenRevenue !== null ? pdfMoney(analysis.breakEvenRevenue) : 'n/a'}, ` +
+      `margin of safety ${analysis.marginOfSafetyPercent !== null ? `${analysis.marginOfSafetyPercent.toFixed(1)}%` : 'n/a'}`
+    );
+
+    breakEvenText.forEach((text, index) => {
+      pdf.text(text, 20, currentY + (index * 6));
+    });
+    currentY += 25;
+
     // Current vs Optimized Costs
     checkPageBreak(60);
     pdf.setFontSize(14);
@@ -143,10 +218,10 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
     pdf.setTextColor(0, 0, 0);
     const costData = [
       ['Category', 'Current Costs', 'Optimized Costs', 'Savings'],
-      ['Labor', `$${data.baseline.costs.labor.toLocaleString()}`, `$${data.optimized.costs.labor.toLocaleString()}`, `$${(data.baseline.costs.labor - data.optimized.costs.labor).toLocaleString()}`],
-      ['COGS', `$${data.baseline.costs.cogs.toLocaleString()}`, `$${data.optimized.costs.cogs.toLocaleString()}`, `$${(data.baseline.costs.cogs - data.optimized.costs.cogs).toLocaleString()}`],
-      ['Overhead', `$${data.baseline.costs.overhead.toLocaleString()}`, `$${data.optimized.costs.overhead.toLocaleString()}`, `$${(data.baseline.costs.overhead - data.optimized.costs.overhead).toLocaleString()}`],
-      ['Total', `$${totalCurrentCosts.toLocaleString()}`, `$${totalOptimizedCosts.toLocaleString()}`, `$${totalSavings.toLocaleString()}`]
+      ['Labor', pdfMoney(data.baseline.costs.labor), pdfMoney(data.optimized.costs.labor), pdfMoney(data.baseline.costs.labor - data.optimized.costs.labor)],
+      ['COGS', pdfMoney(data.baseline.costs.cogs), pdfMoney(data.optimized.costs.cogs), pdfMoney(data.baseline.costs.cogs - data.optimized.costs.cogs)],
+      ['Overhead', pdfMoney(data.baseline.costs.overhead), pdfMoney(data.optimized.costs.overhead), pdfMoney(data.baseline.costs.overhead - data.optimized.costs.overhead)],
+      ['Total', pdfMoney(totalCurrentCosts), pdfMoney(totalOptimizedCosts), pdfMoney(totalSavings)]
     ];
 
     costData.forEach((row, rowIndex) => {
@@ -191,8 +266,8 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
 
         pdf.setFontSize(8);
         pdf.setTextColor(0, 0, 0);
-        pdf.text(`Annual Savings: $${(rec.annual_savings || rec.savings || 0).toLocaleString()}`, 25, currentY);
-        pdf.text(`Investment: $${(rec.implementation_cost || rec.cost || 0).toLocaleString()}`, 100, currentY);
+        pdf.text(`Annual Savings: ${pdfMoney(rec.annual_savings || rec.savings || 0)}`, 25, currentY);
+        pdf.text(`Investment: ${pdfMoney(rec.implementation_cost || rec.cost || 0)}`, 100, currentY);
         currentY += 5;
         pdf.text(`3-Year ROI: ${(rec.three_year_roi || 0).toFixed(0)}%`, 25, currentY);
         pdf.text(`Payback: ${rec.payback_months || 12} months`, 100, currentY);
@@ -250,6 +325,41 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
       currentY += 5;
     });
 
+    // Appendix: the engine assumptions the Sandbox ran with, edited values flagged against their defaults
+    pdf.addPage();
+    currentY = 20;
+    pdf.setFontSize(14);
+    pdf.setTextColor(139, 92, 246);
+    pdf.text('Appendix: Assumptions in Effect', 20, currentY);
+    currentY += 10;
+
+    pdf.setFontSize(9);
+    pdf.setTextColor(0, 0, 0);
+    const appendixIntro = pdf.splitTextToSize(
+      'The simulation engine ran with the values below. Values marked "edited" were changed from the defaults in the Sandbox.',
+      170
+    );
+    pdf.text(appendixIntro, 20, currentY);
+    currentY += appendixIntro.length * 5 + 5;
+
+    const assumptionRows = [
+      ['Assumption', 'Value', 'Default'],
+      ...ASSUMPTION_DEFINITIONS.map(definition => [
+        `${definition.group}: ${definition.label}`,
+        `${formatAssumptionValue(definition, assumptions[definition.id], pdfMoney)}${assumptionOverrides[definition.id] !== undefined ? ' (edited)' : ''}`,
+        formatAssumptionValue(definition, definition.defaultValue, pdfMoney)
+      ])
+    ];
+    assumptionRows.forEach((row, rowIndex) => {
+      checkPageBreak(6);
+      pdf.setFont('helvetica', rowIndex === 0 ? 'bold' : 'normal');
+      pdf.text(row[0], 20, currentY);
+      pdf.text(row[1], 125, currentY);
+      pdf.text(row[2], 165, currentY);
+      currentY += 6;
+    });
+    pdf.setFont('helvetica', 'normal');
+
     // Add page numbers
     const pageCount = pdf.internal.getNumberOfPages();
     for (let i = 1; i <= pageCount; i++) {
@@ -345,8 +455,8 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
             <BarChart data={costComparisonData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} />
+              <Tooltip formatter={(value) => formatMoney(Number(value))} />
               <Bar dataKey="labor" fill="#8B5CF6" name="Labor" />
               <Bar dataKey="cogs" fill="#06B6D4" name="COGS" />
               <Bar dataKey="overhead" fill="#10B981" name="Overhead" />
@@ -360,8 +470,8 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
             <LineChart data={data.timeline_projections}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="month" />
-              <YAxis />
-              <Tooltip formatter={(value) => [`$${Number(value).toLocaleString()}`, 'Cumulative Savings']} />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} />
+              <Tooltip formatter={(value) => [formatMoney(Number(value)), 'Cumulative Savings']} />
               <Line 
                 type="monotone" 
                 dataKey="cumulative" 
@@ -389,7 +499,7 @@ const PDFReportGenerator: React.FC<PDFReportGeneratorProps> = ({
                   <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Pie>
-              <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+              <Tooltip formatter={(value) => formatMoney(Number(value))} />
             </PieChart>
           </ResponsiveContainer>
         </div>
@@ -0,0 +1,224 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { calculateProductLineImpacts, type PLData, type ProductLine } from '@/utils/simulationUtils';
+import { createDefaultProductLines, createProductLine, MAX_PRODUCT_LINES } from '@/utils/productLineUtils';
+import { formatMoney, formatCompactMoney, getCurrencySymbol } from '@/lib/currency';
+
+interface ProductLinesPanelProps {
+  baselineData: PLData;
+  priceValue: number;
+  lines: ProductLine[];
+  onLinesChange: (lines: ProductLine[]) => void;
+  productPrices: Record<string, number>;
+  onProductPricesChange: (prices: Record<string, number>) => void;
+}
+
+const ProductLinesPanel: React.FC<ProductLinesPanelProps> = ({
+  baselineData,
+  priceValue,
+  lines,
+  onLinesChange,
+  productPrices,
+  onProductPricesChange
+}) => {
+  const lineImpacts = useMemo(
+    () => calculateProductLineImpacts(baselineData, priceValue, productPrices),
+    [baselineData, priceValue, productPrices]
+  );
+
+  const totalBaselineProfit = lineImpacts.reduce((sum, line) => sum + line.baselineGrossProfit, 0);
+  const totalAdjustedProfit = lineImpacts.reduce((sum, line) => sum + line.grossProfit, 0);
+
+  const chartData = lineImpacts.map(line => ({
+    name: line.name,
+    baseline: Math.round(line.baselineGrossProfit),
+    adjusted: Math.round(line.grossProfit)
+  }));
+
+  const updateLine = (id: string, changes: Partial<ProductLine>) => {
+    onLinesChange(lines.map(line => (line.id === id ? { ...line, ...changes } : line)));
+    // A new baseline price invalidates any price override for the line
+    if (changes.price !== undefined) {
+      const { [id]: _removed, ...rest } = productPrices;
+      onProductPricesChange(rest);
+    }
+  };
+
+  const removeLine = (id: string) => {
+    onLinesChange(lines.filter(line => line.id !== id));
+    const { [id]: _removed, ...rest } = productPrices;
+    onProductPricesChange(rest);
+  };
+
+  const renderNumberInput = (line: ProductLine, key: 'price' | 'unitsSold' | 'unitCOGS' | 'elasticity', label: string, step: number) => (
+    <label className="text-xs text-gray-600 space-y-1">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Math.round(line[key] * 100) / 100}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          if (Number.isFinite(value) && value >= 0) updateLine(line.id, { [key]: value });
+        }}
+        className="w-full p-1 text-sm text-gray-900 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+      />
+    </label>
+  );
+
+  if (lines.length === 0) {
+    return (
+      <Card className="professional-card">
+        <CardHeader>
+          <CardTitle className="text-2xl professional-heading">Product Lines</CardTitle>
+          <p className="text-sm professional-text">
+            The forecast treats the business as a single product at {formatMoney(baselineData.averagePrice, { decimals: 2 })}.
+            Break it down by product line to model SKUs with different prices, margins and price sensitivity.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            onClick={() => {
+              const defaults = createDefaultProductLines(baselineData);
+              onLinesChange([...defaults, createProductLine(defaults)]);
+            }}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Break Down by Product Line
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-2xl professional-heading">Product Lines</CardTitle>
+          <div className="flex gap-2">
+            {Object.keys(productPrices).length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => onProductPricesChange({})} className="flex items-center gap-1">
+                <RotateCcw className="w-4 h-4" />
+                Reset Prices
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={lines.length >= MAX_PRODUCT_LINES}
+              onClick={() => onLinesChange([...lines, createProductLine(lines)])}
+              className="flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add Line
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm professional-text">
+          Each line has its own price, volume, unit cost and elasticity. Lines follow the main price slider proportionally until you set their price here.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lines.map((line, index) => {
+          const impact = lineImpacts[index];
+          const adjustedPrice = impact ? impact.price : line.price;
+          const margin = line.price > 0 ? ((line.price - line.unitCOGS) / line.price) * 100 : 0;
+          return (
+            <div key={line.id} className="border border-gray-200 rounded-lg p-3 space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  aria-label="Product line name"
+                  value={line.name}
+                  onChange={(e) => updateLine(line.id, { name: e.target.value })}
+                  className="flex-1 p-1 text-sm font-semibold text-gray-900 border border-transparent rounded hover:border-gray-300 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                />
+                <span className="text-xs text-gray-500">{margin.toFixed(0)}% margin</span>
+                {lines.length > 1 && (
+                  <button
+                    onClick={() => removeLine(line.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label="Remove product line"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {renderNumberInput(line, 'price', `Baseline Price (${getCurrencySymbol()})`, 1)}
+                {renderNumberInput(line, 'unitsSold', 'Units / Month', 10)}
+                {renderNumberInput(line, 'unitCOGS', `COGS / Unit (${getCurrencySymbol()})`, 1)}
+                {renderNumberInput(line, 'elasticity', 'Elasticity', 0.1)}
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <label htmlFor={`line-price-${line.id}`} className="font-medium text-gray-700">New Price</label>
+                  <span className="font-bold text-black">
+                    {formatMoney(adjustedPrice, { decimals: 2 })}
+                    {impact && (
+                      <span className={`ml-2 font-normal ${impact.demandChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {impact.demandChange >= 0 ? '+' : ''}{(impact.demandChange * 100).toFixed(1)}% units
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  id={`line-price-${line.id}`}
+                  min={Math.round(line.price * 0.7 * 100) / 100}
+                  max={Math.round(line.price * 1.3 * 100) / 100}
+                  step={0.5}
+                  value={adjustedPrice}
+                  onChange={(e) => onProductPricesChange({ ...productPrices, [line.id]: parseFloat(e.target.value) })}
+                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="w-full h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => formatCompactMoney(value)} />
+              <Tooltip
+                formatter={(value, name) => [
+                  formatMoney(Number(value)),
+                  name === 'baseline' ? 'Baseline Gross Profit' : 'Adjusted Gross Profit'
+                ]}
+              />
+              <Legend formatter={(value) => (value === 'baseline' ? 'Baseline' : 'Adjusted')} />
+              <Bar dataKey="baseline" fill="hsl(var(--muted-foreground))" opacity={0.5} radius={[4, 4, 0, 0]} />
+              <Bar dataKey="adjusted" fill="hsl(220, 70%, 50%)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-center">
+          {lineImpacts.map(line => {
+            const baselineShare = totalBaselineProfit !== 0 ? (line.baselineGrossProfit / totalBaselineProfit) * 100 : 0;
+            const adjustedShare = totalAdjustedProfit !== 0 ? (line.grossProfit / totalAdjustedProfit) * 100 : 0;
+            return (
+              <div key={line.id} className="bg-gray-50 rounded-lg p-3">
+                <div className="text-xs text-gray-600 truncate">{line.name} profit share</div>
+                <div className="text-lg font-bold text-gray-900">{adjustedShare.toFixed(0)}%</div>
+                <div className="text-xs text-gray-500">from {baselineShare.toFixed(0)}%</div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProductLinesPanel;
@@ -0,0 +1,162 @@
+import React, { useState, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Upload } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import { INDUSTRIES } from '@/lib/industries';
+import { MONTH_LABELS } from '@/utils/simulationUtils';
+import {
+  SEASONALITY_PROFILES,
+  getSeasonalityProfile,
+  getProfileForIndustry,
+  deriveSeasonalityFromHistory,
+  parseRevenueHistoryCsv,
+  type RevenueHistoryPoint
+} from '@/utils/seasonalityUtils';
+
+interface SeasonalityEditorProps {
+  factors: number[];
+  onChange: (factors: number[]) => void;
+  industry?: string;
+  revenueHistory?: RevenueHistoryPoint[];
+}
+
+const SeasonalityEditor: React.FC<SeasonalityEditorProps> = ({ factors, onChange, industry, revenueHistory }) => {
+  const [selectedProfile, setSelectedProfile] = useState(
+    revenueHistory && revenueHistory.length > 0 ? 'history' : getProfileForIndustry(industry).id
+  );
+  const [selectedIndustry, setSelectedIndustry] = useState(industry || '');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const chartData = MONTH_LABELS.map((month, index) => ({ month, factor: factors[index] }));
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const profileId = e.target.value;
+    setSelectedProfile(profileId);
+    if (profileId === 'history' && revenueHistory) {
+      onChange(deriveSeasonalityFromHistory(revenueHistory));
+    } else if (profileId !== 'custom') {
+      onChange(getSeasonalityProfile(profileId).factors);
+    }
+  };
+
+  const handleIndustryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const profile = getProfileForIndustry(e.target.value);
+    setSelectedIndustry(e.target.value);
+    setSelectedProfile(profile.id);
+    onChange(profile.factors);
+  };
+
+  const handleFactorChange = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!Number.isFinite(value) || value < 0) return;
+    setSelectedProfile('custom');
+    onChange(factors.map((factor, i) => (i === index ? value : factor)));
+  };
+
+  const handleHistoryUpload = async (file: File) => {
+    const history = parseRevenueHistoryCsv(await file.text());
+    if (history.length < 12) {
+      toast({
+        title: "Not enough history",
+        description: "Upload at least 12 months of revenue as month,revenue rows.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setSelectedProfile('custom');
+    onChange(deriveSeasonalityFromHistory(history));
+    toast({
+      title: "Seasonality derived",
+      description: `Profile fitted from ${history.length} months of revenue history.`
+    });
+  };
+
+  const profileDescription = SEASONALITY_PROFILES.find(profile => profile.id === selectedProfile)?.description
+    || (selectedProfile === 'history' ? 'Derived from the monthly revenue in your uploaded P&L.' : 'Custom monthly factors.');
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <CardTitle className="text-2xl professional-heading">Seasonality Profile</CardTitle>
+        <p className="text-sm professional-text">{profileDescription}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+          <select
+            aria-label="Industry"
+            value={selectedIndustry}
+            onChange={handleIndustryChange}
+            className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Pick by industry</option>
+            {INDUSTRIES.map(ind => (
+              <option key={ind} value={ind}>{ind}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Seasonality profile"
+            value={selectedProfile}
+            onChange={handleProfileChange}
+            className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {SEASONALITY_PROFILES.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+            {revenueHistory && revenueHistory.length > 0 && (
+              <option value="history">From uploaded P&L</option>
+            )}
+            <option value="custom">Custom</option>
+          </select>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2">
+            <Upload className="w-4 h-4" />
+            Derive from CSV
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleHistoryUpload(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+
+        <div className="w-full h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis domain={[0, 'auto']} tick={{ fontSize: 12 }} width={32} />
+              <Tooltip formatter={(value) => [`${Number(value).toFixed(2)}x`, 'Seasonal Factor']} />
+              <ReferenceLine y={1} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 2" />
+              <Bar dataKey="factor" fill="hsl(220, 70%, 50%)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="grid grid-cols-6 md:grid-cols-12 gap-1">
+          {MONTH_LABELS.map((month, index) => (
+            <label key={month} className="text-center text-xs text-gray-500">
+              {month}
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={factors[index]}
+                onChange={handleFactorChange(index)}
+                className="w-full mt-1 p-1 text-xs text-center text-gray-900 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeasonalityEditor;
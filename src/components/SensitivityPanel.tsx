@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import {
+  scaleSensitivityRanges,
+  getSensitivityRanges,
+  type SensitivityMetric,
+  type SensitivityScenario
+} from '@/utils/sensitivityUtils';
+import { formatMoney, formatCompactMoney } from '@/lib/currency';
+import { useEngineWorker } from '@/hooks/use-engine-worker';
+
+interface SensitivityPanelProps {
+  scenario: SensitivityScenario;
+}
+
+const rangeOptions = [
+  { label: 'Narrow', factor: 0.5 },
+  { label: 'Standard', factor: 1 },
+  { label: 'Wide', factor: 2 }
+];
+
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ scenario }) => {
+  const [metric, setMetric] = useState<SensitivityMetric>('annualProfit');
+  const [rangeFactor, setRangeFactor] = useState(1);
+
+  // Each perturbed forecast runs in the engine worker; the previous tornado stays up while it updates
+  const sensitivityJob = useEngineWorker('sensitivity');
+  const { run: runSensitivity } = sensitivityJob;
+  useEffect(() => {
+    runSensitivity({ scenario, metric, ranges: scaleSensitivityRanges(getSensitivityRanges(scenario.baselineData), rangeFactor) });
+  }, [runSensitivity, scenario, metric, rangeFactor]);
+  const results = sensitivityJob.result || [];
+
+  // Bars are drawn as deltas from the base case so they fan out around zero
+  const chartData = results.map(result => ({
+    label: result.label,
+    low: result.lowValue - result.baseValue,
+    high: result.highValue - result.baseValue
+  }));
+
+  const formatValue = (value: number) => metric === 'roi'
+    ? `${value >= 0 ? '+' : ''}${value.toFixed(1)} pts`
+    : formatMoney(value, { signed: true });
+
+  const topDriver = results[0];
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="text-2xl professional-heading">Sensitivity Analysis</CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+              className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="annualProfit">Annual Profit</option>
+              <option value="roi">ROI</option>
+            </select>
+            <select
+              value={rangeFactor}
+              onChange={(e) => setRangeFactor(parseFloat(e.target.value))}
+              className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              {rangeOptions.map(option => (
+                <option key={option.label} value={option.factor}>{option.label} range</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {sensitivityJob.isRunning && (
+          <p className="text-xs text-gray-500">
+            Updating{sensitivityJob.progress !== null ? ` (${Math.round(sensitivityJob.progress * 100)}%)` : ''}…
+          </p>
+        )}
+        {topDriver && topDriver.swing > 0 && (
+          <p className="professional-text text-sm">
+            <span className="font-semibold text-gray-900">{topDriver.label}</span> has the largest effect, swinging {metric === 'roi' ? 'ROI' : 'annual profit'} by {formatValue(topDriver.swing).replace('+', '')}.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="w-full h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" stackOffset="sign" margin={{ left: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+              <XAxis
+                type="number"
+                tickFormatter={(value) => metric === 'roi' ? `${value}` : formatCompactMoney(value)}
+              />
+              <YAxis type="category" dataKey="label" width={130} tick={{ fontSize: 12 }} />
+              <Tooltip
+                formatter={(value, name) => [formatValue(Number(value)), name === 'low' ? 'Low input' : 'High input']}
+              />
+              <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+              <Bar dataKey="low" stackId="swing" fill="#F97316" name="low" />
+              <Bar dataKey="high" stackId="swing" fill="hsl(220, 70%, 50%)" name="high" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-4 flex justify-center gap-8 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-2 bg-orange-500 rounded-sm"></div>
+            <span className="text-gray-600">Input at low end of range</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-2 bg-blue-500 rounded-sm"></div>
+            <span className="text-gray-600">Input at high end of range</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityPanel;
@@ -3,10 +3,20 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, DollarSign, Calendar, Target, CheckCircle, AlertCircle } from 'lucide-react';
+import { TrendingUp, Banknote, Calendar, Target, CheckCircle, AlertCircle } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar } from 'recharts';
 import { API_BASE_URL } from '@/lib/api';
 import PDFReportGenerator from '@/components/PDFReportGenerator';
+import BenchmarkRangeBar from '@/components/BenchmarkRangeBar';
+import { useCurrency } from '@/hooks/use-currency';
+import { convertAmount } from '@/lib/currency';
+import {
+  BENCHMARK_METRICS,
+  compareToBenchmark,
+  formatBenchmarkValue,
+  getIndustryBenchmark,
+  type BenchmarkMetricId
+} from '@/utils/benchmarkUtils';
 
 interface SimulationData {
   baseline: {
@@ -47,16 +57,63 @@ interface SimulationData {
   };
 }
 
+type SimulationCosts = SimulationData['baseline']['costs'];
+
+type SimulationRecommendation = SimulationData['recommendations'][number];
+
+interface RawRecommendation extends SimulationRecommendation {
+  annual_savings?: number;
+  implementation_cost?: number;
+  three_year_savings?: number;
+  five_year_savings?: number;
+}
+
+// Uploaded P&L figures into the reporting currency (no-op without a conversion rate)
+const convertSimulationData = (data: SimulationData & { summary_metrics?: { total_savings?: number } }) => {
+  if (!data) return data;
+  const convertCosts = (costs: SimulationCosts) => costs && {
+    ...costs,
+    labor: convertAmount(costs.labor || 0),
+    cogs: convertAmount(costs.cogs || 0),
+    overhead: convertAmount(costs.overhead || 0)
+  };
+  const convertOptional = (value?: number) => (value === undefined || value === null ? value : convertAmount(value));
+
+  return {
+    ...data,
+    baseline: data.baseline && { ...data.baseline, revenue: convertAmount(data.baseline.revenue || 0), costs: convertCosts(data.baseline.costs) },
+    optimized: data.optimized && { ...data.optimized, costs: convertCosts(data.optimized.costs) },
+    timeline_projections: (data.timeline_projections || []).map(projection => ({
+      ...projection,
+      savings: convertAmount(projection.savings || 0),
+      cumulative: convertAmount(projection.cumulative || 0)
+    })),
+    recommendations: (data.recommendations || []).map((rec: RawRecommendation) => ({
+      ...rec,
+      annual_savings: convertOptional(rec.annual_savings),
+      savings: convertOptional(rec.savings),
+      implementation_cost: convertOptional(rec.implementation_cost),
+      cost: convertOptional(rec.cost),
+      three_year_savings: convertOptional(rec.three_year_savings),
+      five_year_savings: convertOptional(rec.five_year_savings)
+    })),
+    roi_metrics: data.roi_metrics && { ...data.roi_metrics, total_investment: convertAmount(data.roi_metrics.total_investment || 0) },
+    summary_metrics: data.summary_metrics && { ...data.summary_metrics, total_savings: convertAmount(data.summary_metrics.total_savings || 0) }
+  };
+};
+
 interface DashboardProps {
   companyId: string;
   companyName?: string;
+  industry?: string;
   onDataLoaded?: (data: SimulationData) => void;
 }
 
-const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName, onDataLoaded }) => {
+const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName, industry, onDataLoaded }) => {
   const [data, setData] = useState<SimulationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [confidenceScore] = useState(87); // Mock confidence score
+  const { formatMoney, formatCompactMoney, currencySymbol } = useCurrency();
 
   useEffect(() => {
     fetchSimulationData();
@@ -190,8 +247,9 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
         
         console.log('Enhanced simulation data:', enhancedData);
         console.log('Transformed data:', transformedData);
-        setData(transformedData);
-        onDataLoaded?.(transformedData);
+        const convertedData = convertSimulationData(transformedData);
+        setData(convertedData);
+        onDataLoaded?.(convertedData);
       } else {
         // Fallback to regular simulation endpoint
         response = await fetch(`${API_BASE_URL}/companies/${companyId}/simulation`);
@@ -199,8 +257,9 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
           throw new Error('Failed to fetch simulation data');
         }
         const result = await response.json();
-        setData(result.data.simulation);
-        onDataLoaded?.(result.data.simulation);
+        const convertedData = convertSimulationData(result.data.simulation);
+        setData(convertedData);
+        onDataLoaded?.(convertedData);
       }
     } catch (error) {
       console.error('Error fetching simulation data:', error);
@@ -264,6 +323,14 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
     { name: 'Overhead', value: data.optimized.costs.overhead, color: '#10B981' },
   ].filter(item => item.value > 0); // Only show non-zero values
 
+  // Margin and labor share before and after optimization against the company's industry peers
+  const { industry: benchmarkIndustry, benchmark } = getIndustryBenchmark(industry);
+  const revenue = data.baseline.revenue;
+  const benchmarkRows = revenue > 0 ? [
+    { id: 'grossMargin' as BenchmarkMetricId, current: (revenue - data.baseline.costs.cogs) / revenue, optimized: (revenue - data.optimized.costs.cogs) / revenue },
+    { id: 'laborShare' as BenchmarkMetricId, current: data.baseline.costs.labor / revenue, optimized: data.optimized.costs.labor / revenue }
+  ].filter(row => benchmark[row.id]) : [];
+
   return (
     <div className="space-y-6">
       {/* Executive Summary */}
@@ -271,10 +338,10 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
         <Card className="professional-card">
           <CardContent className="p-6">
             <div className="flex items-center gap-3">
-              <DollarSign className="h-8 w-8 text-green-600" />
+              <Banknote className="h-8 w-8 text-green-600" />
               <div>
                 <p className="text-sm text-gray-600">Total Savings</p>
-                <p className="text-2xl font-bold text-green-600">${totalSavings.toLocaleString()}</p>
+                <p className="text-2xl font-bold text-green-600">{formatMoney(totalSavings)}</p>
               </div>
             </div>
           </CardContent>
@@ -330,7 +397,7 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
           <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
             <div className="text-center p-4 border border-gray-200 rounded-lg">
               <p className="text-sm text-gray-600 mb-1">Total Investment</p>
-              <p className="text-xl font-bold text-gray-900">${data.roi_metrics.total_investment.toLocaleString()}</p>
+              <p className="text-xl font-bold text-gray-900">{formatMoney(data.roi_metrics.total_investment)}</p>
             </div>
             <div className="text-center p-4 border border-gray-200 rounded-lg">
               <p className="text-sm text-gray-600 mb-1">Annual ROI</p>
@@ -360,7 +427,7 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
               <p className="text-sm text-gray-600 mb-1">Break-Even</p>
               <p className="text-xl font-bold text-blue-600">
                 {data.roi_metrics.break_even_date ? 
-                  new Date(data.roi_metrics.break_even_date).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }) :
+                  new Date(data.roi_metrics.break_even_date).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) :
                   `${data.roi_metrics.payback_months} mo`
                 }
               </p>
@@ -405,8 +472,8 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
               <BarChart data={costComparisonData}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
-                <YAxis />
-                <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+                <YAxis tickFormatter={(value) => formatCompactMoney(value)} />
+                <Tooltip formatter={(value) => formatMoney(Number(value))} />
                 <Bar dataKey="labor" fill="#8B5CF6" name="Labor" />
                 <Bar dataKey="cogs" fill="#06B6D4" name="COGS" />
                 <Bar dataKey="overhead" fill="#10B981" name="Overhead" />
@@ -432,11 +499,11 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
                     label={{ value: 'Month', position: 'insideBottom', offset: -5 }}
                   />
                   <YAxis 
-                    label={{ value: 'Cumulative Savings ($)', angle: -90, position: 'insideLeft' }}
-                    tickFormatter={(value) => `$${(value / 1000).toFixed(0)}K`}
+                    label={{ value: `Cumulative Savings (${currencySymbol})`, angle: -90, position: 'insideLeft' }}
+                    tickFormatter={(value) => formatCompactMoney(value)}
                   />
                   <Tooltip 
-                    formatter={(value) => [`$${Number(value).toLocaleString()}`, 'Cumulative Savings']}
+                    formatter={(value) => [formatMoney(Number(value)), 'Cumulative Savings']}
                     labelFormatter={(label) => `Month ${label}`}
                   />
                   <Line 
@@ -474,10 +541,41 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
                       <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => `$${Number(value).toLocaleString()}`} />
+                  <Tooltip formatter={(value) => formatMoney(Number(value))} />
                 </PieChart>
               </ResponsiveContainer>
             </div>
+            {benchmarkRows.length > 0 && (
+              <div className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+                <p className="text-sm font-medium text-gray-700">
+                  vs. {benchmarkIndustry === 'Other' ? 'all-industry' : benchmarkIndustry} peers
+                </p>
+                {benchmarkRows.map(row => {
+                  const range = benchmark[row.id];
+                  const comparison = compareToBenchmark(row.id, row.optimized, range);
+                  return (
+                    <div key={row.id} className="space-y-1">
+                      <div className="flex justify-between text-xs text-gray-600">
+                        <span>{BENCHMARK_METRICS[row.id].label}</span>
+                        <span>
+                          {formatBenchmarkValue(row.id, row.current)} → <span className={comparison.favorable ? 'text-green-600 font-semibold' : 'text-amber-600 font-semibold'}>{formatBenchmarkValue(row.id, row.optimized)}</span>
+                          {' '}(median {formatBenchmarkValue(row.id, range.median)})
+                        </span>
+                      </div>
+                      <BenchmarkRangeBar
+                        range={range}
+                        min={0}
+                        max={Math.max(range.p75 * 1.5, row.current * 1.1, row.optimized * 1.1)}
+                        markers={[
+                          { value: row.current, color: '#6B7280', label: `Current: ${formatBenchmarkValue(row.id, row.current)}` },
+                          { value: row.optimized, color: '#8B5CF6', label: `Optimized: ${formatBenchmarkValue(row.id, row.optimized)}` }
+                        ]}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -511,7 +609,7 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                         <div className="text-center p-2 bg-white rounded border">
                           <p className="text-gray-600">Annual Savings</p>
-                          <p className="font-medium text-green-600">${(rec.annual_savings || rec.savings || 0).toLocaleString()}</p>
+                          <p className="font-medium text-green-600">{formatMoney(rec.annual_savings || rec.savings || 0)}</p>
                         </div>
                         <div className="text-center p-2 bg-white rounded border">
                           <p className="text-gray-600">3-Year ROI</p>
@@ -527,15 +625,15 @@ const SimulationDashboard: React.FC<DashboardProps> = ({ companyId, companyName,
                         </div>
                         <div className="text-center p-2 bg-white rounded border">
                           <p className="text-gray-600">Investment</p>
-                          <p className="font-medium text-gray-900">${(rec.implementation_cost || rec.cost || 0).toLocaleString()}</p>
+                          <p className="font-medium text-gray-900">{formatMoney(rec.implementation_cost || rec.cost || 0)}</p>
                         </div>
                       </div>
                       
                       {/* 3-Year vs 5-Year Comparison */}
                       <div className="mt-3 pt-3 border-t">
                         <div className="grid grid-cols-2 gap-4 text-xs text-gray-600">
-                          <div>3-Year Savings: <span className="font-medium text-green-700">${(rec.three_year_savings || (rec.annual_savings || rec.savings || 0) * 3).toLocaleString()}</span></div>
-                          <div>5-Year Savings: <span className="font-medium text-green-700">${(rec.five_year_savings || (rec.annual_savings || rec.savings || 0) * 5).toLocaleString()}</span></div>
+                          <div>3-Year Savings: <span className="font-medium text-green-700">{formatMoney(rec.three_year_savings || (rec.annual_savings || rec.savings || 0) * 3)}</span></div>
+                          <div>5-Year Savings: <span className="font-medium text-green-700">{formatMoney(rec.five_year_savings || (rec.annual_savings || rec.savings || 0) * 5)}</span></div>
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Repeat, RotateCcw } from 'lucide-react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { ForecastData, PLData } from '@/utils/simulationUtils';
+import { createDefaultSubscriptionModel, calculateUnitEconomics, type SubscriptionModel } from '@/utils/subscriptionUtils';
+import { formatMoney, getCurrencySymbol } from '@/lib/currency';
+
+interface SubscriptionPanelProps {
+  baselineData: PLData;
+  model: SubscriptionModel | null; // null: revenue is unit sales
+  onChange: (model: SubscriptionModel | null) => void;
+  forecastData: ForecastData[];
+}
+
+type SubscriptionField = keyof SubscriptionModel;
+
+interface FieldDefinition {
+  key: SubscriptionField;
+  label: string;
+  step: number;
+  isRate?: boolean; // edited as a percentage
+}
+
+const FIELDS: FieldDefinition[] = [
+  { key: 'customers', label: 'Active Customers', step: 10 },
+  { key: 'arpu', label: 'ARPU (per month)', step: 1 },
+  { key: 'monthlyChurnRate', label: 'Monthly Churn (%)', step: 0.1, isRate: true },
+  { key: 'monthlyExpansionRate', label: 'Monthly Expansion (%)', step: 0.1, isRate: true },
+  { key: 'newCustomersPerMonth', label: 'New Customers / Month', step: 1 },
+  { key: 'cac', label: 'CAC', step: 10 },
+  { key: 'churnPriceSensitivity', label: 'Churn Price Sensitivity', step: 0.1 },
+  { key: 'retentionCostPerPoint', label: 'Retention Cost per 1% Churn Cut', step: 10 }
+];
+
+const CURRENCY_FIELDS: SubscriptionField[] = ['arpu', 'cac', 'retentionCostPerPoint'];
+
+const SERIES_LABELS: Record<string, string> = {
+  mrr: 'Scenario MRR',
+  originalMrr: 'Status Quo MRR'
+};
+
+const formatMonths = (months: number) => (Number.isFinite(months) ? `${months.toFixed(1)} mo` : 'n/a');
+
+const SubscriptionPanel: React.FC<SubscriptionPanelProps> = ({ baselineData, model, onChange, forecastData }) => {
+  const grossMarginShare = baselineData.monthlyRevenue > 0 ? 1 - baselineData.monthlyCOGS / baselineData.monthlyRevenue : 0;
+  const economics = useMemo(() => (model ? calculateUnitEconomics(model, grossMarginShare) : null), [model, grossMarginShare]);
+
+  if (!model) {
+    return (
+      <Card className="professional-card">
+        <CardHeader>
+          <CardTitle className="text-2xl professional-heading">Recurring Revenue</CardTitle>
+          <p className="text-sm professional-text">
+            Revenue is modelled as unit sales. Subscription businesses can switch to customers, ARPU, churn, expansion and CAC
+            to forecast MRR instead.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => onChange(createDefaultSubscriptionModel(baselineData))} className="flex items-center gap-2">
+            <Repeat className="w-4 h-4" />
+            Switch to Subscriptions
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const currencySymbol = getCurrencySymbol();
+  const lastMonth = forecastData[forecastData.length - 1];
+
+  const updateField = (field: FieldDefinition, input: string) => {
+    const value = Math.max(0, parseFloat(input) || 0);
+    onChange({ ...model, [field.key]: field.isRate ? value / 100 : value });
+  };
+
+  return (
+    <Card className="professional-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-2xl professional-heading">Recurring Revenue</CardTitle>
+            <p className="text-sm professional-text">
+              Revenue is MRR: customers churn and sign up each month and ARPU grows with expansion. The price slider sets ARPU.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => onChange(null)} className="flex items-center gap-1">
+            <RotateCcw className="w-3 h-3" />
+            Use Unit Sales
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {FIELDS.map(field => (
+            <label key={field.key} htmlFor={`subscription-${field.key}`} className="text-xs text-gray-600 space-y-1">
+              <span>{CURRENCY_FIELDS.includes(field.key) ? `${field.label} (${currencySymbol})` : field.label}</span>
+              <input
+                type="number"
+                id={`subscription-${field.key}`}
+                min={0}
+                step={field.step}
+                value={field.isRate ? Math.round(model[field.key] * 1000) / 10 : model[field.key]}
+                onChange={(e) => updateField(field, e.target.value)}
+                className="w-full p-2 text-sm text-gray-900 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              />
+            </label>
+          ))}
+        </div>
+
+        {economics && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+            <div className="p-3 rounded-lg bg-gray-50">
+              <div className="text-xs text-gray-500">Customer Lifetime Value</div>
+              <div className="font-bold text-black">{Number.isFinite(economics.ltv) ? formatMoney(economics.ltv) : 'n/a'}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50">
+              <div className="text-xs text-gray-500">LTV : CAC</div>
+              <div className={`font-bold ${economics.ltvToCac >= 3 ? 'text-green-700' : 'text-red-700'}`}>
+                {Number.isFinite(economics.ltvToCac) ? `${economics.ltvToCac.toFixed(1)}x` : 'n/a'}
+              </div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50">
+              <div className="text-xs text-gray-500">CAC Payback</div>
+              <div className="font-bold text-black">{formatMonths(economics.paybackMonths)}</div>
+            </div>
+            <div className="p-3 rounded-lg bg-gray-50">
+              <div className="text-xs text-gray-500">Customers at {lastMonth?.month}</div>
+              <div className="font-bold text-black">{(lastMonth?.customers ?? model.customers).toLocaleString()}</div>
+            </div>
+          </div>
+        )}
+
+        <div className="w-full h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={forecastData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={(value) => `${(value / 1000).toFixed(0)}k`} tick={{ fontSize: 12 }} width={40} />
+              <Tooltip formatter={(value, name) => [formatMoney(Number(value)), SERIES_LABELS[name as string] || name]} />
+              <Line type="monotone" dataKey="originalMrr" stroke="#9CA3AF" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+              <Line type="monotone" dataKey="mrr" stroke="hsl(220, 70%, 50%)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {lastMonth?.mrr !== undefined && lastMonth.originalMrr !== undefined && (
+          <p className="text-xs text-gray-500">
+            MRR reaches {formatMoney(lastMonth.mrr)} by {lastMonth.month}, against {formatMoney(lastMonth.originalMrr)} on the
+            status quo. Sign-ups this month: {(lastMonth.newCustomers ?? 0).toLocaleString()}; cancellations:{' '}
+            {(lastMonth.churnedCustomers ?? 0).toLocaleString()}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubscriptionPanel;
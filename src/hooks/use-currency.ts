@@ -0,0 +1,31 @@
+import * as React from "react"
+
+import {
+  getCurrencySettings,
+  setCurrencySettings,
+  subscribeToCurrency,
+  formatMoney,
+  formatCompactMoney,
+  getCurrencySymbol,
+  convertAmount,
+  type CurrencySettings,
+  type MoneyFormatOptions,
+} from "@/lib/currency"
+
+// Re-render when the reporting currency changes; formatters are bound to the current settings
+function useCurrency() {
+  const [settings, setSettings] = React.useState<CurrencySettings>(getCurrencySettings())
+
+  React.useEffect(() => subscribeToCurrency(setSettings), [])
+
+  return React.useMemo(() => ({
+    currency: settings,
+    setCurrency: setCurrencySettings,
+    formatMoney: (value: number, options?: MoneyFormatOptions) => formatMoney(value, options, settings),
+    formatCompactMoney: (value: number) => formatCompactMoney(value, settings),
+    currencySymbol: getCurrencySymbol(settings),
+    convert: (value: number) => convertAmount(value, settings),
+  }), [settings])
+}
+
+export { useCurrency }
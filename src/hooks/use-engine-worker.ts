@@ -0,0 +1,99 @@
+import * as React from "react"
+
+import { getCurrencySettings } from "@/lib/currency"
+import {
+  runEngineJob,
+  type EngineJobs,
+  type EngineJobType,
+  type EngineRequestMessage,
+  type EngineResponseMessage,
+} from "@/workers/engineJobs"
+
+interface EngineJobState<K extends EngineJobType> {
+  result: EngineJobs[K]["result"] | null // latest completed result; kept while the next one computes
+  isRunning: boolean
+  progress: number | null // 0-1 while a job that reports progress is running
+  error: string | null
+}
+
+const IDLE_STATE = { result: null, isRunning: false, progress: null, error: null }
+
+const createWorker = () =>
+  new Worker(new URL("../workers/engine.worker.ts", import.meta.url), { type: "module" })
+
+// Run engine jobs of one type in a dedicated worker. A new request cancels the one in flight: a busy
+// worker can't be interrupted, so it is terminated and replaced, and replies to older requests are ignored.
+function useEngineWorker<K extends EngineJobType>(job: K) {
+  const workerRef = React.useRef<Worker | null>(null)
+  const requestIdRef = React.useRef(0)
+  const isBusyRef = React.useRef(false)
+  const [state, setState] = React.useState<EngineJobState<K>>(IDLE_STATE)
+
+  const terminate = React.useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    isBusyRef.current = false
+  }, [])
+
+  const handleMessage = React.useCallback((event: MessageEvent<EngineResponseMessage>) => {
+    const message = event.data
+    if (message.id !== requestIdRef.current) return
+
+    if (message.type === "progress") {
+      setState(prev => ({ ...prev, progress: message.total > 0 ? message.completed / message.total : null }))
+      return
+    }
+
+    isBusyRef.current = false
+    if (message.type === "result") {
+      setState({ ...IDLE_STATE, result: message.result as EngineJobs[K]["result"] })
+    } else {
+      setState(prev => ({ ...prev, isRunning: false, progress: null, error: message.message }))
+    }
+  }, [])
+
+  const getWorker = React.useCallback(() => {
+    if (!workerRef.current) {
+      const worker = createWorker()
+      worker.onmessage = handleMessage
+      worker.onerror = (event) => {
+        console.error("Simulation worker error:", event.message)
+        terminate()
+        setState(prev => ({ ...prev, isRunning: false, progress: null, error: event.message || "The simulation worker failed" }))
+      }
+      workerRef.current = worker
+    }
+    return workerRef.current
+  }, [handleMessage, terminate])
+
+  const run = React.useCallback((request: EngineJobs[K]["request"]) => {
+    const id = ++requestIdRef.current
+
+    // Without worker support the job runs in place
+    if (typeof Worker === "undefined") {
+      try {
+        setState({ ...IDLE_STATE, result: runEngineJob(job, request) })
+      } catch (error) {
+        setState(prev => ({ ...prev, error: error instanceof Error ? error.message : String(error) }))
+      }
+      return
+    }
+
+    if (isBusyRef.current) terminate()
+    isBusyRef.current = true
+    setState(prev => ({ ...prev, isRunning: true, progress: null, error: null }))
+    getWorker().postMessage({ type: "run", id, job, request, currency: getCurrencySettings() } as EngineRequestMessage)
+  }, [job, getWorker, terminate])
+
+  const cancel = React.useCallback(() => {
+    requestIdRef.current++
+    if (isBusyRef.current) terminate()
+    setState(prev => ({ ...prev, isRunning: false, progress: null }))
+  }, [terminate])
+
+  React.useEffect(() => terminate, [terminate])
+
+  return { ...state, run, cancel }
+}
+
+export { useEngineWorker }
@@ -0,0 +1,106 @@
+// Reporting currency from the company profile, shared by every money figure, chart axis and PDF
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'CHF' | 'SEK' | 'DKK' | 'NOK' | 'PLN' | 'CZK';
+
+export interface CurrencySettings {
+  code: CurrencyCode;
+  locale?: string; // number formatting locale; the browser's locale when unset
+  conversionRate: number | null; // reporting-currency units per unit of the uploaded P&L; null = no conversion
+}
+
+export interface MoneyFormatOptions {
+  decimals?: number; // fraction digits, default 0
+  signed?: boolean; // prefix positive amounts with +
+  plainText?: boolean; // PDF-safe: plain spaces, and the ISO code when the symbol is outside the built-in fonts
+}
+
+export const CURRENCIES: Array<{ code: CurrencyCode; name: string }> = [
+  { code: 'USD', name: 'US Dollar' },
+  { code: 'EUR', name: 'Euro' },
+  { code: 'GBP', name: 'British Pound' },
+  { code: 'CHF', name: 'Swiss Franc' },
+  { code: 'SEK', name: 'Swedish Krona' },
+  { code: 'DKK', name: 'Danish Krone' },
+  { code: 'NOK', name: 'Norwegian Krone' },
+  { code: 'PLN', name: 'Polish Zloty' },
+  { code: 'CZK', name: 'Czech Koruna' }
+];
+
+export const DEFAULT_CURRENCY: CurrencySettings = {
+  code: 'USD',
+  conversionRate: null
+};
+
+const STORAGE_KEY = 'currencySettings';
+
+const loadSettings = (): CurrencySettings => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return stored ? { ...DEFAULT_CURRENCY, ...JSON.parse(stored) } : DEFAULT_CURRENCY;
+  } catch (error) {
+    console.error('Error reading currency settings:', error);
+    return DEFAULT_CURRENCY;
+  }
+};
+
+// Module-level settings so engine text and components format the same way; persisted across pages
+let currentSettings: CurrencySettings = loadSettings();
+const listeners: Array<(settings: CurrencySettings) => void> = [];
+
+export const getCurrencySettings = () => currentSettings;
+
+export const setCurrencySettings = (settings: CurrencySettings) => {
+  currentSettings = settings;
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving currency settings:', error);
+  }
+  listeners.forEach(listener => listener(settings));
+};
+
+export const subscribeToCurrency = (listener: (settings: CurrencySettings) => void) => {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+};
+
+// Full amount with the currency symbol placed and separated the locale's way, e.g. $12,500 or 12.500 €
+export const formatMoney = (value: number, options: MoneyFormatOptions = {}, settings: CurrencySettings = currentSettings) => {
+  const decimals = options.decimals ?? 0;
+  const format = (currencyDisplay: 'symbol' | 'code') => new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.code,
+    currencyDisplay,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  }).format(Number.isFinite(value) ? value : 0);
+
+  let formatted = format('symbol');
+  if (options.plainText) {
+    // jsPDF's standard fonts only cover Latin-1 plus the euro sign
+    if (/[^\u0020-\u00FF\u20AC\u202F\u2212]/.test(formatted)) formatted = format('code');
+    formatted = formatted.replace(/[\u00A0\u202F]/g, ' ').replace(/\u2212/g, '-');
+  }
+  return options.signed && value > 0 ? `+${formatted}` : formatted;
+};
+
+// Short form for chart axes and tight tiles, e.g. $12K or 1,2 Mio. €
+export const formatCompactMoney = (value: number, settings: CurrencySettings = currentSettings) =>
+  new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.code,
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(Number.isFinite(value) ? value : 0);
+
+export const getCurrencySymbol = (settings: CurrencySettings = currentSettings) =>
+  new Intl.NumberFormat(settings.locale, { style: 'currency', currency: settings.code })
+    .formatToParts(0)
+    .find(part => part.type === 'currency')?.value || settings.code;
+
+// Uploaded P&L figures into the reporting currency; a no-op without a conversion rate
+export const convertAmount = (value: number, settings: CurrencySettings = currentSettings) =>
+  settings.conversionRate && Number.isFinite(value) ? value * settings.conversionRate : value;
@@ -0,0 +1,13 @@
+// Industries offered in company setup; engine modules key industry-specific defaults off these names
+export const INDUSTRIES = [
+  'Manufacturing',
+  'Retail',
+  'Technology',
+  'Healthcare',
+  'Financial Services',
+  'Automotive',
+  'Food & Beverage',
+  'Logistics & Transportation',
+  'Construction',
+  'Other'
+];
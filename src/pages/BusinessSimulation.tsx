@@ -10,6 +10,15 @@ import DynamicQuestionnaire from '@/components/DynamicQuestionnaire';
 import SimulationDashboard from '@/components/SimulationDashboard';
 import AdjustmentSliders from '@/components/AdjustmentSliders';
 import PDFReportGenerator from '@/components/PDFReportGenerator';
+import type { CurrencyCode } from '@/lib/currency';
+import {
+  calibrateCoefficients,
+  extractPLHistory,
+  saveCalibration,
+  saveActiveCompanyId,
+  MIN_CALIBRATION_PERIODS
+} from '@/utils/calibrationUtils';
+import { loadAssumptionOverrides, resolveAssumptions } from '@/utils/assumptionsUtils';
 
 type SimulationStep = 'landing' | 'setup' | 'upload' | 'questionnaire' | 'processing' | 'results';
 
@@ -19,6 +28,7 @@ interface CompanyData {
   industry: string;
   email: string;
   emailConsent: boolean;
+  currency: CurrencyCode;
 }
 
 interface SimulationData {
@@ -34,10 +44,16 @@ const BusinessSimulation = () => {
 
   const handleCompanySetup = (data: CompanyData) => {
     setCompanyData(data);
+    saveActiveCompanyId(data.id);
     setCurrentStep('upload');
   };
 
   const handleUploadSuccess = (data: any) => {
+    // Multi-period uploads calibrate the engine for this company; the Sandbox shows the fit before using it
+    const history = extractPLHistory(data);
+    if (companyData && history.length >= MIN_CALIBRATION_PERIODS) {
+      saveCalibration(companyData.id, calibrateCoefficients(history, resolveAssumptions(loadAssumptionOverrides())));
+    }
     setCurrentStep('questionnaire');
   };
 
@@ -210,6 +226,7 @@ const BusinessSimulation = () => {
                 <SimulationDashboard 
                   companyId={companyData?.id || ''} 
                   companyName={companyData?.name}
+                  industry={companyData?.industry}
                   onDataLoaded={setFullReportData}
                 />
               </div>
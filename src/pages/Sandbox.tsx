@@ -3,27 +3,156 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Sparkles, TrendingUp, DollarSign, Calculator, ChevronDown, ChevronUp, Info, ArrowUp, ArrowDown } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import DemandModelSelector from '@/components/DemandModelSelector';
+import SensitivityPanel from '@/components/SensitivityPanel';
+import GoalSeekPanel from '@/components/GoalSeekPanel';
+import SeasonalityEditor from '@/components/SeasonalityEditor';
+import CashFlowPanel from '@/components/CashFlowPanel';
+import InvestmentModelSelector from '@/components/InvestmentModelSelector';
+import ProductLinesPanel from '@/components/ProductLinesPanel';
+import MarketingChannelsPanel from '@/components/MarketingChannelsPanel';
+import MarketingTimingPanel from '@/components/MarketingTimingPanel';
+import InterventionTimeline from '@/components/InterventionTimeline';
+import CapacityPanel from '@/components/CapacityPanel';
+import BreakEvenPanel from '@/components/BreakEvenPanel';
+import HeadcountPanel from '@/components/HeadcountPanel';
+import SubscriptionPanel from '@/components/SubscriptionPanel';
+import InflationPanel from '@/components/InflationPanel';
+import BenchmarkPanel from '@/components/BenchmarkPanel';
+import BenchmarkRangeBar from '@/components/BenchmarkRangeBar';
+import CalibrationPanel from '@/components/CalibrationPanel';
+import AssumptionsPanel from '@/components/AssumptionsPanel';
+import { useCurrency } from '@/hooks/use-currency';
+import { useEngineWorker } from '@/hooks/use-engine-worker';
+import type { ForecastJobRequest } from '@/workers/engineJobs';
 import { 
   extractPLData, 
-  generateForecastData, 
-  calculateSummaryMetrics,
   calculateLaborAutomationImpact,
   calculateProductionEfficiencyImpact,
   calculateInventoryTurnoverImpact,
+  calculateUpfrontCapex,
+  getEngineCoefficients,
+  DEFAULT_DEMAND_MODEL,
+  DEFAULT_FORECAST_OPTIONS,
+  MONTH_LABELS,
+  type DemandModel,
+  type ForecastOptions,
   type PLData,
   type ForecastData,
-  type OperationalFactors
+  type OperationalFactors,
+  type ProductLine
 } from '@/utils/simulationUtils';
+import type { SensitivityScenario } from '@/utils/sensitivityUtils';
+import type { GoalSeekLever } from '@/utils/goalSeekUtils';
+import { DEFAULT_INVESTMENT_MODEL, type InvestmentModel } from '@/utils/investmentUtils';
+import { applyProductLines } from '@/utils/productLineUtils';
+import { applyHeadcount, type HeadcountModel } from '@/utils/headcountUtils';
+import { applySubscription, MAX_CHURN_REDUCTION, type SubscriptionModel } from '@/utils/subscriptionUtils';
+import { DEFAULT_INFLATION_ASSUMPTIONS, type InflationAssumptions } from '@/utils/inflationUtils';
+import { DEFAULT_TAX_CONFIG, type TaxConfig } from '@/utils/taxUtils';
+import {
+  getIndustryBenchmark,
+  getCompanyBenchmarkValues,
+  getScenarioBenchmarkValues,
+  formatBenchmarkValue
+} from '@/utils/benchmarkUtils';
+import {
+  applyCalibration,
+  extractPLHistory,
+  loadCalibration,
+  saveCalibration,
+  resolveCalibrationCompanyId,
+  type CalibrationResult
+} from '@/utils/calibrationUtils';
+import {
+  applyAssumptions,
+  getAssumptions,
+  loadAssumptionOverrides,
+  saveAssumptionOverrides,
+  type SimulationAssumptions
+} from '@/utils/assumptionsUtils';
+import {
+  applyResponseCurve,
+  DEFAULT_RESPONSE_CURVE,
+  RESPONSE_CURVE_OPTIONS,
+  type ResponseCurveType
+} from '@/utils/responseCurveUtils';
+import {
+  getChannelTotal,
+  scaleChannelsToBudget,
+  DEFAULT_MARKETING_ADSTOCK,
+  type MarketingChannel,
+  type MarketingAdstock,
+  type MarketingSpendChange
+} from '@/utils/marketingUtils';
+import { getDefaultCapacityModel, DEFAULT_BASE_UTILIZATION, type CapacityModel } from '@/utils/capacityUtils';
+import {
+  INTERVENTION_LABELS,
+  DEFAULT_INTERVENTION_SCHEDULE,
+  type InterventionLeverId,
+  type InterventionTimeline as InterventionTimelineSettings
+} from '@/utils/timelineUtils';
+import { DEFAULT_MONTE_CARLO_CONFIG } from '@/utils/monteCarloUtils';
+import { getProfileForIndustry, extractRevenueHistory, deriveSeasonalityFromHistory } from '@/utils/seasonalityUtils';
+
+const NO_FORECAST: ForecastData[] = [];
 
 interface SandboxProps {
   simulationData?: any;
 }
 
 const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
-  // Extract P&L data from simulation or use defaults
-  const baselineData: PLData = useMemo(() => extractPLData(simulationData), [simulationData]);
+  const { formatMoney, formatCompactMoney, currencySymbol } = useCurrency();
+
+  // Extract P&L data from simulation or use defaults, converted into the reporting currency
+  const extractedData: PLData = useMemo(() => extractPLData(simulationData), [simulationData]);
+  
+  // Demand model drives every price-dependent calculation
+  const [demandModel, setDemandModel] = useState<DemandModel>(DEFAULT_DEMAND_MODEL);
+  
+  // Product lines replace the single-product price and units once the user breaks the business down
+  const [productLines, setProductLines] = useState<ProductLine[]>(extractedData.productLines || []);
+  const [productPrices, setProductPrices] = useState<Record<string, number>>({});
+  // An edited roster replaces the labor total; without one automation assumes the default role mix
+  const [headcount, setHeadcount] = useState<HeadcountModel | null>(extractedData.headcount || null);
+  // Subscription businesses forecast MRR from customers, churn and ARPU instead of unit sales
+  const [subscriptionModel, setSubscriptionModel] = useState<SubscriptionModel | null>(extractedData.subscription || null);
+  // Coefficients fitted to the company's P&L history, saved per company; they apply once the user accepts the fit
+  const companyId = useMemo(() => resolveCalibrationCompanyId(simulationData), [simulationData]);
+  const plHistory = useMemo(() => extractPLHistory(simulationData?.pl_data || simulationData), [simulationData]);
+  const [calibration, setCalibration] = useState<CalibrationResult | null>(() => loadCalibration(companyId));
+  // Edited engine assumptions, kept across sessions so the report lists what the Sandbox ran with
+  const [assumptionOverrides, setAssumptionOverrides] = useState<Partial<SimulationAssumptions>>(loadAssumptionOverrides);
+  // Shape of the automation and efficiency response; tiered reproduces the earlier step behaviour for comparison
+  const [responseCurve, setResponseCurve] = useState<ResponseCurveType>(DEFAULT_RESPONSE_CURVE);
+  const baselineData: PLData = useMemo(() => {
+    const withDemandModel = { ...extractedData, demandModel };
+    const withProductLines = productLines.length > 0 ? applyProductLines(withDemandModel, productLines) : withDemandModel;
+    const withHeadcount = headcount ? applyHeadcount(withProductLines, headcount) : withProductLines;
+    const withSubscription = applySubscription(withHeadcount, subscriptionModel);
+    const withAssumptions = applyResponseCurve(applyAssumptions(withSubscription, assumptionOverrides), responseCurve);
+    return applyCalibration(withAssumptions, calibration);
+  }, [extractedData, demandModel, productLines, headcount, subscriptionModel, assumptionOverrides, responseCurve, calibration]);
+  const assumptions = useMemo(() => getAssumptions(baselineData), [baselineData]);
+  const defaultCoefficients = useMemo(() => getEngineCoefficients({ ...baselineData, coefficients: undefined }), [baselineData]);
+
+  const handleCalibrationChange = (result: CalibrationResult | null) => {
+    setCalibration(result);
+    saveCalibration(companyId, result);
+  };
+
+  const handleAssumptionsChange = (overrides: Partial<SimulationAssumptions>) => {
+    setAssumptionOverrides(overrides);
+    saveAssumptionOverrides(overrides);
+  };
+
+  // The discount rate is an assumption, so the PDF report discounts at the rate set here
+  const discountRate = assumptions.discountRate;
+  const handleDiscountRateChange = (input: string) => {
+    handleAssumptionsChange({ ...assumptionOverrides, discountRate: Math.max(0, parseFloat(input) || 0) / 100 });
+  };
   // Slider state - calculate ranges based on baseline data
   const priceRange = {
     min: Math.round(baselineData.averagePrice * 0.7),
@@ -33,23 +162,85 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
     min: 0,
     max: Math.max(baselineData.marketingSpend * 3, 50000)
   };
+  // Operational sliders start at the assumed baselines
+  const automationRange = { min: 0, max: 80 };
+  const efficiencyRange = { min: assumptions.baselineEfficiency, max: assumptions.baselineEfficiency + 50 };
+  const turnoverRange = { min: assumptions.baselineInventoryTurns, max: assumptions.baselineInventoryTurns + 6 };
   
   const [priceValue, setPriceValue] = useState(baselineData.averagePrice);
   const [marketingValue, setMarketingValue] = useState(baselineData.marketingSpend);
+  const [marketingChannels, setMarketingChannels] = useState<MarketingChannel[] | null>(null);
+  const [marketingAdstock, setMarketingAdstock] = useState<MarketingAdstock>(DEFAULT_MARKETING_ADSTOCK);
+  const [marketingStartMonth, setMarketingStartMonth] = useState(1);
+  const [marketingSchedule, setMarketingSchedule] = useState<MarketingSpendChange[]>([]);
   
   // New operational factor states
-  const [laborAutomation, setLaborAutomation] = useState(10); // 10% baseline
-  const [productionEfficiency, setProductionEfficiency] = useState(100); // 100% baseline
-  const [inventoryTurnover, setInventoryTurnover] = useState(6); // 6x baseline
+  const [laborAutomation, setLaborAutomation] = useState(assumptions.baselineAutomationLevel);
+  const [productionEfficiency, setProductionEfficiency] = useState(assumptions.baselineEfficiency);
+  const [inventoryTurnover, setInventoryTurnover] = useState(assumptions.baselineInventoryTurns);
+  const [interventionTimeline, setInterventionTimeline] = useState<InterventionTimelineSettings>({});
+  const [capacityModel, setCapacityModel] = useState<CapacityModel>(() => getDefaultCapacityModel(baselineData));
+  const [churnReduction, setChurnReduction] = useState(0);
   
   // UI state
   const [isInvestmentBreakdownExpanded, setIsInvestmentBreakdownExpanded] = useState(false);
+  const [isMonteCarloEnabled, setIsMonteCarloEnabled] = useState(false);
+  const [monteCarloSeed, setMonteCarloSeed] = useState(DEFAULT_MONTE_CARLO_CONFIG.seed);
+  
+  // Forecast horizon settings
+  const [horizonMonths, setHorizonMonths] = useState(DEFAULT_FORECAST_OPTIONS.horizonMonths);
+  const [startMonth, setStartMonth] = useState(DEFAULT_FORECAST_OPTIONS.startMonth);
+  const [annualGrowthRate, setAnnualGrowthRate] = useState(DEFAULT_FORECAST_OPTIONS.annualGrowthRate);
+  const [inflation, setInflation] = useState<InflationAssumptions>(DEFAULT_INFLATION_ASSUMPTIONS);
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(DEFAULT_TAX_CONFIG);
+  const [isAfterTaxView, setIsAfterTaxView] = useState(false);
+  const [investmentModel, setInvestmentModel] = useState<InvestmentModel>(DEFAULT_INVESTMENT_MODEL);
+  
+  // Industry the benchmarks compare against, starting from the company's own
+  const [industry, setIndustry] = useState<string>(simulationData?.industry || '');
+  
+  // Seasonality: revenue history from the uploaded P&L wins over the industry profile
+  const revenueHistory = useMemo(() => extractRevenueHistory(simulationData?.pl_data || simulationData), [simulationData]);
+  const [seasonalFactors, setSeasonalFactors] = useState<number[]>(() =>
+    revenueHistory.length > 0 ? deriveSeasonalityFromHistory(revenueHistory) : getProfileForIndustry(simulationData?.industry).factors
+  );
 
   // Update slider values when baseline data changes
+  useEffect(() => {
+    setMarketingValue(extractedData.marketingSpend);
+    setMarketingChannels(null);
+    setProductLines(extractedData.productLines || []);
+    setProductPrices({});
+    setHeadcount(extractedData.headcount || null);
+    setSubscriptionModel(extractedData.subscription || null);
+  }, [extractedData]);
+
+  useEffect(() => {
+    setCalibration(loadCalibration(companyId));
+  }, [companyId]);
+  
+  // The product mix sets the average price, so re-centre the price slider when it changes
   useEffect(() => {
     setPriceValue(baselineData.averagePrice);
-    setMarketingValue(baselineData.marketingSpend);
-  }, [baselineData]);
+  }, [baselineData.averagePrice]);
+  
+  // Moving a baseline assumption moves its slider back to the new baseline
+  useEffect(() => {
+    setLaborAutomation(assumptions.baselineAutomationLevel);
+  }, [assumptions.baselineAutomationLevel]);
+
+  useEffect(() => {
+    setProductionEfficiency(assumptions.baselineEfficiency);
+  }, [assumptions.baselineEfficiency]);
+
+  useEffect(() => {
+    setInventoryTurnover(assumptions.baselineInventoryTurns);
+  }, [assumptions.baselineInventoryTurns]);
+  
+  // Capacity defaults follow baseline volume
+  useEffect(() => {
+    setCapacityModel(prev => ({ ...prev, baseUnitsPerMonth: Math.round(baselineData.unitsSold / DEFAULT_BASE_UTILIZATION) }));
+  }, [baselineData.unitsSold]);
   
   // Create operational factors object
   const operationalFactors: OperationalFactors = useMemo(() => ({
@@ -58,17 +249,99 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
     inventoryTurnoverRate: inventoryTurnover
   }), [laborAutomation, productionEfficiency, inventoryTurnover]);
   
-  // Generate forecast data with seasonal variation
-  const forecastData = useMemo(() => 
-    generateForecastData(baselineData, priceValue, marketingValue, operationalFactors), 
-    [baselineData, priceValue, marketingValue, operationalFactors]
+  const forecastOptions: ForecastOptions = useMemo(() => ({
+    horizonMonths,
+    startMonth,
+    annualGrowthRate,
+    inflation,
+    seasonalFactors,
+    investmentModel,
+    productPrices,
+    marketingChannels: marketingChannels || undefined,
+    marketingAdstock,
+    marketingStartMonth,
+    marketingSchedule,
+    interventionTimeline,
+    capacity: capacityModel,
+    churnReduction
+  }), [
+    horizonMonths, startMonth, annualGrowthRate, inflation, seasonalFactors, investmentModel, productPrices,
+    marketingChannels, marketingAdstock, marketingStartMonth, marketingSchedule, interventionTimeline, capacityModel, churnReduction
+  ]);
+  
+  // The marketing slider sets the total; the channel mix is resized to match it
+  const displayedChannels = useMemo(
+    () => (marketingChannels ? scaleChannelsToBudget(marketingChannels, marketingValue) : null),
+    [marketingChannels, marketingValue]
+  );
+  
+  const handleMarketingChannelsChange = (channels: MarketingChannel[] | null) => {
+    setMarketingChannels(channels);
+    if (channels) setMarketingValue(Math.round(getChannelTotal(channels)));
+  };
+  
+  // Forecast and summary metrics (Monte Carlo percentile bands when enabled), computed in the engine worker
+  const forecastRequest: ForecastJobRequest = useMemo(() => ({
+    baselineData,
+    priceValue,
+    marketingValue,
+    operationalFactors,
+    forecastOptions,
+    summaryOptions: { discountRate, investmentModel, tax: taxConfig },
+    monteCarlo: isMonteCarloEnabled ? { ...DEFAULT_MONTE_CARLO_CONFIG, seed: monteCarloSeed } : undefined
+  }), [
+    baselineData, priceValue, marketingValue, operationalFactors, forecastOptions, discountRate, investmentModel, taxConfig,
+    isMonteCarloEnabled, monteCarloSeed
+  ]);
+  const forecastJob = useEngineWorker('forecast');
+  const { run: runForecast } = forecastJob;
+  useEffect(() => {
+    runForecast(forecastRequest);
+  }, [runForecast, forecastRequest]);
+  // The page shows a loading state until the worker's first reply; later runs keep the previous result up
+  const forecastData = forecastJob.result?.forecastData ?? NO_FORECAST;
+  const summaryMetrics = forecastJob.result?.summaryMetrics;
+  
+  // Levers moved away from baseline, and the forecast month each one starts in
+  const activeInterventions: InterventionLeverId[] = useMemo(() => {
+    const levers: InterventionLeverId[] = [];
+    if (priceValue !== baselineData.averagePrice || Object.keys(productPrices).length > 0) levers.push('price');
+    if (laborAutomation !== assumptions.baselineAutomationLevel) levers.push('laborAutomationLevel');
+    if (productionEfficiency !== assumptions.baselineEfficiency) levers.push('productionEfficiency');
+    if (inventoryTurnover !== assumptions.baselineInventoryTurns) levers.push('inventoryTurnoverRate');
+    return levers;
+  }, [priceValue, baselineData.averagePrice, productPrices, laborAutomation, productionEfficiency, inventoryTurnover, assumptions]);
+  
+  const interventionMarkers = useMemo(() => {
+    const labelsByMonth = new Map<number, string[]>();
+    activeInterventions.forEach(lever => {
+      const { startMonth: leverStart } = interventionTimeline[lever] || DEFAULT_INTERVENTION_SCHEDULE;
+      labelsByMonth.set(leverStart, [...(labelsByMonth.get(leverStart) || []), INTERVENTION_LABELS[lever]]);
+    });
+    return Array.from(labelsByMonth.entries())
+      .filter(([month]) => month <= forecastData.length)
+      .map(([month, labels]) => ({ month: forecastData[month - 1].month, label: labels.join(', ') }));
+  }, [activeInterventions, interventionTimeline, forecastData]);
+  
+  // Range values let recharts draw the band between lower and upper bounds
+  const chartData = useMemo(() => 
+    forecastData.map(month => ({
+      ...month,
+      adjustedBand: [month.adjustedLowerBound, month.adjustedUpperBound]
+    })),
+    [forecastData]
   );
   
-  // Calculate summary metrics
-  const summaryMetrics = useMemo(() => 
-    calculateSummaryMetrics(baselineData, forecastData, marketingValue, operationalFactors),
-    [baselineData, forecastData, marketingValue, operationalFactors]
+  // Peer ranges for the chosen industry, and where today's business and the scenario sit against them
+  const industryBenchmark = useMemo(() => getIndustryBenchmark(industry).benchmark, [industry]);
+  const companyBenchmarkValues = useMemo(() => getCompanyBenchmarkValues(baselineData), [baselineData]);
+  const scenarioBenchmarkValues = useMemo(() =>
+    getScenarioBenchmarkValues(baselineData, forecastData, operationalFactors),
+    [baselineData, forecastData, operationalFactors]
   );
+
+  // Headline figures follow the pre-tax / after-tax toggle
+  const headlineMetrics = isAfterTaxView && summaryMetrics?.afterTax ? { ...summaryMetrics, ...summaryMetrics.afterTax } : summaryMetrics;
   
   const handlePriceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setPriceValue(parseInt(e.target.value));
@@ -90,24 +363,77 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
     setInventoryTurnover(parseInt(e.target.value));
   };
   
+  // Snapshot of the current sliders for sensitivity analysis and goal seek
+  const currentScenario = useMemo(() => ({
+    baselineData,
+    priceValue,
+    marketingValue,
+    operationalFactors,
+    forecastOptions
+  }), [baselineData, priceValue, marketingValue, operationalFactors, forecastOptions]);
+  
+  // Goal seek searches the same ranges the sliders expose
+  const goalSeekLevers: GoalSeekLever[] = useMemo(() => [
+    { id: 'price', min: priceRange.min, max: priceRange.max, step: 1 },
+    { id: 'marketing', min: marketingRange.min, max: marketingRange.max, step: 500 },
+    { id: 'laborAutomationLevel', min: automationRange.min, max: automationRange.max, step: 10 },
+    { id: 'productionEfficiency', min: efficiencyRange.min, max: efficiencyRange.max, step: 10 },
+    { id: 'inventoryTurnoverRate', min: turnoverRange.min, max: turnoverRange.max, step: 1 }
+  ], [
+    priceRange.min, priceRange.max, marketingRange.min, marketingRange.max, automationRange.min, automationRange.max,
+    efficiencyRange.min, efficiencyRange.max, turnoverRange.min, turnoverRange.max
+  ]);
+  
+  const handleApplyGoalSeek = (scenario: SensitivityScenario) => {
+    setPriceValue(scenario.priceValue);
+    setMarketingValue(scenario.marketingValue);
+    setLaborAutomation(scenario.operationalFactors.laborAutomationLevel);
+    setProductionEfficiency(scenario.operationalFactors.productionEfficiency);
+    setInventoryTurnover(scenario.operationalFactors.inventoryTurnoverRate);
+  };
+  
   // Calculate individual investment components for breakdown
   const investmentBreakdown = useMemo(() => {
     const automationImpact = calculateLaborAutomationImpact(baselineData, laborAutomation);
     const efficiencyImpact = calculateProductionEfficiencyImpact(baselineData, productionEfficiency);
     const inventoryImpact = calculateInventoryTurnoverImpact(baselineData, inventoryTurnover);
     const marketingCost = marketingValue - baselineData.marketingSpend;
+    const isCapexMode = investmentModel.mode === 'capex';
+    
+    // Capex mode swaps the automation and efficiency fees for the month-one depreciation and financing charge
+    const laborAutomationCost = isCapexMode ? 0 : automationImpact.automationInvestment || 0;
+    const productionEfficiencyCost = isCapexMode ? 0 : efficiencyImpact.implementationCost || 0;
+    const capitalChargeCost = isCapexMode ? forecastData[0]?.investmentExpense || 0 : 0;
     
     return {
-      laborAutomationCost: automationImpact.automationInvestment || 0,
-      productionEfficiencyCost: efficiencyImpact.implementationCost || 0,
+      laborAutomationCost,
+      productionEfficiencyCost,
+      capitalChargeCost,
+      upfrontCapex: isCapexMode ? calculateUpfrontCapex(baselineData, operationalFactors, investmentModel).total : 0,
       inventorySystemCost: inventoryImpact.implementationCost || 0,
       marketingSpendCost: Math.max(marketingCost, 0),
-      totalMonthlyCost: (automationImpact.automationInvestment || 0) + 
-                       (efficiencyImpact.implementationCost || 0) + 
+      totalMonthlyCost: laborAutomationCost + 
+                       productionEfficiencyCost + 
+                       capitalChargeCost + 
                        (inventoryImpact.implementationCost || 0) + 
                        Math.max(marketingCost, 0)
     };
-  }, [baselineData, laborAutomation, productionEfficiency, inventoryTurnover, marketingValue]);
+  }, [baselineData, laborAutomation, productionEfficiency, inventoryTurnover, marketingValue, investmentModel, operationalFactors, forecastData]);
+
+  if (!summaryMetrics) {
+    return (
+      <div className="container mx-auto px-6 py-16">
+        <Card className="professional-card">
+          <CardContent className="p-8 text-center">
+            {!forecastJob.error && <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600 mx-auto mb-4"></div>}
+            <p className="professional-text">
+              {forecastJob.error ? `The forecast failed: ${forecastJob.error}` : 'Running the forecast...'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
 
   return (
     <div className="container mx-auto px-6 py-16">
@@ -133,10 +459,11 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <label htmlFor="price-slider" className="text-sm font-semibold text-gray-900">
-                    Product Price ($)
+                    {subscriptionModel ? `Monthly Price per Customer (${currencySymbol})` :
+                      productLines.length > 0 ? `Average Price (${currencySymbol})` : `Product Price (${currencySymbol})`}
                   </label>
                   <div className="text-sm professional-text">
-                    Current: $<span className="text-black font-bold text-lg transition-all duration-300 ease-out">{priceValue}</span>
+                    Current: <span className="text-black font-bold text-lg transition-all duration-300 ease-out">{formatMoney(priceValue, { decimals: 2 })}</span>
                   </div>
                 </div>
                 <div className="relative">
@@ -159,20 +486,53 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-500">
-                  <span>${priceRange.min}</span>
-                  <span className="text-gray-700 font-medium">Baseline: ${baselineData.averagePrice}</span>
-                  <span>${priceRange.max}</span>
+                  <span>{formatMoney(priceRange.min)}</span>
+                  <span className="text-gray-700 font-medium">Baseline: {formatMoney(baselineData.averagePrice, { decimals: 2 })}</span>
+                  <span>{formatMoney(priceRange.max)}</span>
                 </div>
               </div>
               
+              {/* Churn Reduction Control (subscription mode) */}
+              {subscriptionModel && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="churn-slider" className="text-sm font-semibold text-gray-900">
+                      Churn Reduction (%)
+                    </label>
+                    <div className="text-sm professional-text">
+                      Current: <span className="text-black font-bold text-lg transition-all duration-300 ease-out">{Math.round(churnReduction * 100)}%</span>
+                    </div>
+                  </div>
+                  <input
+                    type="range"
+                    id="churn-slider"
+                    min={0}
+                    max={MAX_CHURN_REDUCTION * 100}
+                    step={5}
+                    value={Math.round(churnReduction * 100)}
+                    onChange={(e) => setChurnReduction(parseFloat(e.target.value) / 100)}
+                    className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>
+                      Monthly churn {(subscriptionModel.monthlyChurnRate * 100).toFixed(1)}% → {(subscriptionModel.monthlyChurnRate * (1 - churnReduction) * 100).toFixed(1)}%
+                    </span>
+                    <span>Retention cost: {formatMoney(churnReduction * 100 * subscriptionModel.retentionCostPerPoint)}/month</span>
+                  </div>
+                </div>
+              )}
+              
+              {/* Demand Model Control */}
+              <DemandModelSelector value={demandModel} onChange={setDemandModel} basePrice={baselineData.averagePrice} />
+              
               {/* Marketing Control */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <label htmlFor="marketing-slider" className="text-sm font-semibold text-gray-900">
-                    Monthly Marketing Spend ($)
+                    Monthly Marketing Spend ({currencySymbol})
                   </label>
                   <div className="text-sm professional-text">
-                    Current: $<span className="text-black font-bold text-lg transition-all duration-300 ease-out">{marketingValue.toLocaleString()}</span>
+                    Current: <span className="text-black font-bold text-lg transition-all duration-300 ease-out">{formatMoney(marketingValue)}</span>
                   </div>
                 </div>
                 <div className="relative">
@@ -195,10 +555,13 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-500">
-                  <span>$0</span>
-                  <span className="text-gray-700 font-medium">Baseline: ${baselineData.marketingSpend.toLocaleString()}</span>
-                  <span>${(marketingRange.max / 1000).toFixed(0)}k</span>
+                  <span>{formatMoney(0)}</span>
+                  <span className="text-gray-700 font-medium">Baseline: {formatMoney(baselineData.marketingSpend)}</span>
+                  <span>{formatCompactMoney(marketingRange.max)}</span>
                 </div>
+                {marketingChannels && (
+                  <p className="text-xs text-gray-500">Resizes the channel mix proportionally.</p>
+                )}
               </div>
               
               {/* Labor Automation Level Control */}
@@ -215,8 +578,8 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <input
                     type="range"
                     id="automation-slider"
-                    min="0"
-                    max="80"
+                    min={automationRange.min}
+                    max={automationRange.max}
                     value={laborAutomation}
                     onChange={handleLaborAutomationChange}
                     className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
@@ -225,16 +588,24 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <div 
                     className="absolute top-0 w-0.5 h-3 bg-gray-600 rounded-full pointer-events-none"
                     style={{ 
-                      left: `${(10 / 80) * 100}%`,
+                      left: `${((assumptions.baselineAutomationLevel - automationRange.min) / (automationRange.max - automationRange.min)) * 100}%`,
                       transform: 'translateX(-50%)'
                     }}
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-500">
-                  <span>0%</span>
-                  <span className="text-gray-700 font-medium">Baseline: 10%</span>
-                  <span>80%</span>
+                  <span>{automationRange.min}%</span>
+                  <span className="text-gray-700 font-medium">Baseline: {assumptions.baselineAutomationLevel}%</span>
+                  <span>{automationRange.max}%</span>
                 </div>
+                {industryBenchmark.automationLevel && (
+                  <BenchmarkRangeBar
+                    range={industryBenchmark.automationLevel}
+                    min={automationRange.min}
+                    max={automationRange.max}
+                    caption={`Peers: ${formatBenchmarkValue('automationLevel', industryBenchmark.automationLevel.p25)}–${formatBenchmarkValue('automationLevel', industryBenchmark.automationLevel.p75)}, median ${formatBenchmarkValue('automationLevel', industryBenchmark.automationLevel.median)}`}
+                  />
+                )}
               </div>
               
               {/* Production Efficiency Control */}
@@ -251,8 +622,8 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <input
                     type="range"
                     id="efficiency-slider"
-                    min="100"
-                    max="150"
+                    min={efficiencyRange.min}
+                    max={efficiencyRange.max}
                     value={productionEfficiency}
                     onChange={handleProductionEfficiencyChange}
                     className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
@@ -261,15 +632,15 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <div 
                     className="absolute top-0 w-0.5 h-3 bg-gray-600 rounded-full pointer-events-none"
                     style={{ 
-                      left: `${((100 - 100) / (150 - 100)) * 100}%`,
+                      left: `${((assumptions.baselineEfficiency - efficiencyRange.min) / (efficiencyRange.max - efficiencyRange.min)) * 100}%`,
                       transform: 'translateX(-50%)'
                     }}
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-500">
-                  <span>100%</span>
-                  <span className="text-gray-700 font-medium">Baseline: 100%</span>
-                  <span>150%</span>
+                  <span>{efficiencyRange.min}%</span>
+                  <span className="text-gray-700 font-medium">Baseline: {assumptions.baselineEfficiency}%</span>
+                  <span>{efficiencyRange.max}%</span>
                 </div>
               </div>
               
@@ -287,8 +658,8 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <input
                     type="range"
                     id="turnover-slider"
-                    min="6"
-                    max="12"
+                    min={turnoverRange.min}
+                    max={turnoverRange.max}
                     value={inventoryTurnover}
                     onChange={handleInventoryTurnoverChange}
                     className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer hover:bg-gray-300 transition-colors duration-200 slider-thumb"
@@ -297,26 +668,123 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   <div 
                     className="absolute top-0 w-0.5 h-3 bg-gray-600 rounded-full pointer-events-none"
                     style={{ 
-                      left: `${((6 - 6) / (12 - 6)) * 100}%`,
+                      left: `${((assumptions.baselineInventoryTurns - turnoverRange.min) / (turnoverRange.max - turnoverRange.min)) * 100}%`,
                       transform: 'translateX(-50%)'
                     }}
                   />
                 </div>
                 <div className="flex justify-between text-xs text-gray-500">
-                  <span>6x</span>
-                  <span className="text-gray-700 font-medium">Baseline: 6x</span>
-                  <span>12x</span>
+                  <span>{turnoverRange.min}x</span>
+                  <span className="text-gray-700 font-medium">Baseline: {assumptions.baselineInventoryTurns}x</span>
+                  <span>{turnoverRange.max}x</span>
                 </div>
+                {industryBenchmark.inventoryTurns && (
+                  <BenchmarkRangeBar
+                    range={industryBenchmark.inventoryTurns}
+                    min={turnoverRange.min}
+                    max={turnoverRange.max}
+                    caption={`Peers: ${formatBenchmarkValue('inventoryTurns', industryBenchmark.inventoryTurns.p25)}–${formatBenchmarkValue('inventoryTurns', industryBenchmark.inventoryTurns.p75)}, median ${formatBenchmarkValue('inventoryTurns', industryBenchmark.inventoryTurns.median)}`}
+                  />
+                )}
+              </div>
+              
+              {/* Response Curve */}
+              <div className="space-y-2">
+                <label htmlFor="response-curve" className="text-sm font-semibold text-gray-900">
+                  Operational Response Curve
+                </label>
+                <select
+                  id="response-curve"
+                  value={responseCurve}
+                  onChange={(e) => setResponseCurve(e.target.value as ResponseCurveType)}
+                  className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {RESPONSE_CURVE_OPTIONS.map(option => (
+                    <option key={option.type} value={option.type}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500">
+                  {RESPONSE_CURVE_OPTIONS.find(option => option.type === responseCurve)?.description} Applies to automation and efficiency gains; fees scale with each point moved.
+                </p>
               </div>
+              
+              {/* Automation Investment Model */}
+              <InvestmentModelSelector
+                value={investmentModel}
+                onChange={setInvestmentModel}
+                upfrontCapex={calculateUpfrontCapex(baselineData, operationalFactors, investmentModel).total}
+              />
             </CardContent>
           </Card>
         </div>
         
         {/* Center Column - Profit Forecast (Widest) */}
-        <div className="lg:col-span-6">
+        <div className="lg:col-span-6 space-y-6">
           <Card className="professional-card">
             <CardHeader>
-              <CardTitle className="text-2xl professional-heading">Projected 12-Month Profit Forecast</CardTitle>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-2xl professional-heading">Projected {horizonMonths}-Month Profit Forecast</CardTitle>
+                <div className="flex items-center gap-3 text-sm">
+                  <label htmlFor="monte-carlo-toggle" className="flex items-center gap-2 text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      id="monte-carlo-toggle"
+                      checked={isMonteCarloEnabled}
+                      onChange={(e) => setIsMonteCarloEnabled(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+                    />
+                    Monte Carlo
+                  </label>
+                  {isMonteCarloEnabled && (
+                    <Button variant="outline" size="sm" onClick={() => setMonteCarloSeed(Math.floor(Math.random() * 100000))}>
+                      Reseed
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <select
+                  aria-label="Forecast horizon"
+                  value={horizonMonths}
+                  onChange={(e) => setHorizonMonths(parseInt(e.target.value))}
+                  className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {[12, 24, 36, 48, 60].map(months => (
+                    <option key={months} value={months}>{months / 12} {months === 12 ? 'year' : 'years'}</option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Start month"
+                  value={startMonth}
+                  onChange={(e) => setStartMonth(parseInt(e.target.value))}
+                  className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  {MONTH_LABELS.map((label, index) => (
+                    <option key={label} value={index}>Starts {label}</option>
+                  ))}
+                </select>
+                <label htmlFor="growth-rate" className="flex items-center gap-2 text-gray-700">
+                  Growth
+                  <input
+                    type="number"
+                    id="growth-rate"
+                    step="0.5"
+                    value={Math.round(annualGrowthRate * 1000) / 10}
+                    onChange={(e) => setAnnualGrowthRate((parseFloat(e.target.value) || 0) / 100)}
+                    className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  />
+                  %/yr
+                </label>
+              </div>
+              {isMonteCarloEnabled && (
+                <p className="text-xs text-gray-500">
+                  {DEFAULT_MONTE_CARLO_CONFIG.iterations} runs sampling elasticity, marketing response, seasonality and cost inflation (seed {monteCarloSeed})
+                  {forecastJob.isRunning && forecastJob.progress !== null && ` · running ${Math.round(forecastJob.progress * 100)}%`}
+                </p>
+              )}
+              {forecastJob.error && (
+                <p className="text-xs text-red-600">The forecast could not be updated: {forecastJob.error}</p>
+              )}
             </CardHeader>
             <CardContent>
               <div className="w-full h-96">
@@ -336,16 +804,19 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                     }
                   }}
                 >
-                  <LineChart data={forecastData}>
+                  <ComposedChart data={chartData}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="month" />
                     <YAxis 
-                      tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+                      tickFormatter={(value) => formatCompactMoney(value)}
                     />
                     <ChartTooltip 
                       content={<ChartTooltipContent 
-                        formatter={(value, name) => [
-                          `$${Number(value).toLocaleString()}`,
+                        formatter={(value, name) => Array.isArray(value) ? [
+                          `${formatMoney(Number(value[0]))} – ${formatMoney(Number(value[1]))}`,
+                          isMonteCarloEnabled ? 'P10–P90 Range' : 'Confidence Band'
+                        ] : [
+                          formatMoney(Number(value)),
                           name === 'originalProfit' ? 'Original Forecast' : 'Adjusted Forecast'
                         ]}
                       />}
@@ -363,6 +834,14 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                       </linearGradient>
                     </defs>
                     
+                    <Area
+                      type="monotone"
+                      dataKey="adjustedBand"
+                      stroke="none"
+                      fill="url(#adjustedConfidence)"
+                      activeDot={false}
+                    />
+                    
                     {/* Original forecast line (grayed out) */}
                     <Line 
                       type="monotone" 
@@ -379,12 +858,23 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                       dataKey="adjustedProfit" 
                       stroke="hsl(220, 70%, 50%)"
                       strokeWidth={3}
-                      dot={{ fill: "hsl(220, 70%, 50%)", strokeWidth: 2, r: 4 }}
+                      dot={forecastData.length <= 24 ? { fill: "hsl(220, 70%, 50%)", strokeWidth: 2, r: 4 } : false}
                     />
                     
                     {/* Zero line reference */}
                     <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 2" />
-                  </LineChart>
+                    
+                    {/* Intervention start markers */}
+                    {interventionMarkers.map(marker => (
+                      <ReferenceLine
+                        key={marker.month}
+                        x={marker.month}
+                        stroke="#8B5CF6"
+                        strokeDasharray="3 3"
+                        label={{ value: marker.label, position: 'insideTopLeft', fontSize: 11, fill: '#6D28D9' }}
+                      />
+                    ))}
+                  </ComposedChart>
                 </ChartContainer>
               </div>
             </CardContent>
@@ -404,13 +894,105 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="w-4 h-2 bg-blue-100 rounded-sm"></div>
-                      <span className="text-gray-600">Confidence Band (±15%)</span>
+                      <span className="text-gray-600">{isMonteCarloEnabled ? 'P10–P90 Range (Monte Carlo)' : `Confidence Band (±${Math.round(assumptions.confidenceBand * 100)}%)`}</span>
                     </div>
                   </div>
                 </CardContent>
               </Card>
             </div>
           </Card>
+          
+          <InterventionTimeline
+            timeline={interventionTimeline}
+            onChange={setInterventionTimeline}
+            monthLabels={forecastData.map(month => month.month)}
+            activeLevers={activeInterventions}
+          />
+          
+          <SubscriptionPanel
+            baselineData={baselineData}
+            model={subscriptionModel}
+            onChange={setSubscriptionModel}
+            forecastData={forecastData}
+          />
+
+          {/* Customers replace products in subscription mode */}
+          {!subscriptionModel && (
+            <ProductLinesPanel
+              baselineData={baselineData}
+              priceValue={priceValue}
+              lines={productLines}
+              onLinesChange={setProductLines}
+              productPrices={productPrices}
+              onProductPricesChange={setProductPrices}
+            />
+          )}
+
+          <HeadcountPanel
+            baselineData={baselineData}
+            headcount={headcount}
+            onChange={setHeadcount}
+            automationLevel={laborAutomation}
+          />
+
+          <CalibrationPanel
+            calibration={calibration}
+            onCalibrationChange={handleCalibrationChange}
+            defaultCoefficients={defaultCoefficients}
+            uploadedHistory={plHistory}
+            assumptions={assumptions}
+          />
+
+          <AssumptionsPanel overrides={assumptionOverrides} onChange={handleAssumptionsChange} />
+          
+          <MarketingChannelsPanel
+            channels={displayedChannels}
+            onChannelsChange={handleMarketingChannelsChange}
+            baselineMarketingSpend={baselineData.marketingSpend}
+            monthlyRevenue={baselineData.monthlyRevenue}
+            horizonMonths={horizonMonths}
+          />
+          
+          <MarketingTimingPanel
+            adstock={marketingAdstock}
+            onAdstockChange={setMarketingAdstock}
+            startMonth={marketingStartMonth}
+            onStartMonthChange={setMarketingStartMonth}
+            schedule={marketingSchedule}
+            onScheduleChange={setMarketingSchedule}
+            baselineSpend={baselineData.marketingSpend}
+            marketingValue={marketingValue}
+            monthLabels={forecastData.map(month => month.month)}
+          />
+          
+          {!subscriptionModel && (
+            <CapacityPanel model={capacityModel} onChange={setCapacityModel} forecastData={forecastData} />
+          )}
+
+          <BreakEvenPanel baselineData={baselineData} forecastData={forecastData} />
+
+          <BenchmarkPanel
+            industry={industry}
+            onIndustryChange={setIndustry}
+            companyValues={companyBenchmarkValues}
+            scenarioValues={scenarioBenchmarkValues}
+          />
+          
+          <InflationPanel assumptions={inflation} onChange={setInflation} monthLabels={forecastData.map(month => month.month)} />
+
+          {/* Cash Flow Projection */}
+          <CashFlowPanel baselineData={baselineData} forecastData={forecastData} inventoryTurnover={inventoryTurnover} />
+          
+          {/* Seasonality Profile */}
+          <SeasonalityEditor
+            factors={seasonalFactors}
+            onChange={setSeasonalFactors}
+            industry={simulationData?.industry}
+            revenueHistory={revenueHistory}
+          />
+          
+          {/* Sensitivity Analysis */}
+          <SensitivityPanel scenario={currentScenario} />
         </div>
         
         {/* Right Column - Simulation Summary */}
@@ -418,48 +1000,176 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
           {/* Summary Metrics */}
           <Card className="professional-card">
             <CardHeader>
-              <CardTitle className="text-xl professional-heading flex items-center gap-2">
-                <Calculator className="w-5 h-5" />
-                Impact Summary
-              </CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-xl professional-heading flex items-center gap-2">
+                  <Calculator className="w-5 h-5" />
+                  Impact Summary
+                </CardTitle>
+                <label htmlFor="after-tax-toggle" className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    id="after-tax-toggle"
+                    checked={isAfterTaxView}
+                    onChange={(e) => setIsAfterTaxView(e.target.checked)}
+                    className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+                  />
+                  After-tax
+                </label>
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid grid-cols-1 gap-4">
                 {/* ROI Hero Section */}
                 {summaryMetrics.totalInvestment > 0 && (
                   <div className="text-center p-6 rounded-xl border-2 border-dashed border-gray-200">
-                    <div className="text-sm text-gray-600 mb-2">Overall ROI</div>
+                    <div className="text-sm text-gray-600 mb-2">{isAfterTaxView ? 'After-tax ROI' : 'Overall ROI'}</div>
                     <div className={`inline-flex items-center px-6 py-3 rounded-full text-3xl font-bold transition-all duration-300 ease-out ${
-                      summaryMetrics.roi >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      headlineMetrics.roi >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
                     }`}>
-                      {summaryMetrics.roi >= 0 ? '+' : ''}{summaryMetrics.roi}%
+                      {headlineMetrics.roi >= 0 ? '+' : ''}{headlineMetrics.roi}%
                     </div>
                   </div>
                 )}
                 
                 {/* Projected Monthly Profit - Largest Metric */}
                 <div className="bg-blue-50 rounded-lg p-4">
-                  <div className="text-sm text-blue-600 mb-1">Projected Monthly Profit</div>
+                  <div className="text-sm text-blue-600 mb-1">Projected Monthly Profit{isAfterTaxView && ' (after tax)'}</div>
                   <div className="flex items-center justify-between">
-                    <div className="text-4xl font-bold text-blue-700 transition-all duration-300 ease-out">${summaryMetrics.newProfit.toLocaleString()}</div>
+                    <div className="text-4xl font-bold text-blue-700 transition-all duration-300 ease-out">{formatMoney(headlineMetrics.newProfit)}</div>
                     <div className={`flex items-center text-lg font-semibold transition-all duration-300 ease-out ${
-                      summaryMetrics.monthlyDifference >= 0 ? 'text-green-600' : 'text-red-600'
+                      headlineMetrics.monthlyDifference >= 0 ? 'text-green-600' : 'text-red-600'
                     }`}>
-                      {summaryMetrics.monthlyDifference >= 0 ? <ArrowUp className="w-5 h-5 mr-1 transition-transform duration-300" /> : <ArrowDown className="w-5 h-5 mr-1 transition-transform duration-300" />}
-                      {summaryMetrics.monthlyDifference >= 0 ? '+' : ''}${Math.abs(summaryMetrics.monthlyDifference).toLocaleString()}
+                      {headlineMetrics.monthlyDifference >= 0 ? <ArrowUp className="w-5 h-5 mr-1 transition-transform duration-300" /> : <ArrowDown className="w-5 h-5 mr-1 transition-transform duration-300" />}
+                      {headlineMetrics.monthlyDifference >= 0 ? '+' : ''}{formatMoney(Math.abs(headlineMetrics.monthlyDifference))}
                     </div>
                   </div>
                 </div>
                 
                 <div className="bg-gray-50 rounded-lg p-4">
-                  <div className="text-sm text-gray-600 mb-1">Current Monthly Profit</div>
-                  <div className="text-2xl font-bold text-gray-900">${summaryMetrics.currentProfit.toLocaleString()}</div>
+                  <div className="text-sm text-gray-600 mb-1">Current Monthly Profit{isAfterTaxView && ' (after tax)'}</div>
+                  <div className="text-2xl font-bold text-gray-900">{formatMoney(headlineMetrics.currentProfit)}</div>
                 </div>
                 
                 <div className="bg-purple-50 rounded-lg p-4">
                   <div className="text-sm text-purple-600 mb-1">12-Month Impact</div>
                   <div className="text-xl font-bold text-purple-700">
-                    {summaryMetrics.annualDifference >= 0 ? '+' : ''}${summaryMetrics.annualDifference.toLocaleString()}
+                    {formatMoney(headlineMetrics.annualDifference, { signed: true })}
+                  </div>
+                </div>
+                
+                {/* Multi-year view */}
+                {summaryMetrics.horizonMonths > 12 && (
+                  <div className="bg-indigo-50 rounded-lg p-4">
+                    <div className="text-sm text-indigo-600 mb-1">{summaryMetrics.horizonMonths / 12}-Year Cumulative Impact</div>
+                    <div className="text-xl font-bold text-indigo-700">
+                      {formatMoney(headlineMetrics.cumulativeDifference, { signed: true })}
+                    </div>
+                    <div className="mt-3 space-y-1 border-t border-indigo-200 pt-3">
+                      {headlineMetrics.yearlyFigures.map(year => (
+                        <div key={year.year} className="flex justify-between text-sm">
+                          <span className="text-indigo-700">Year {year.year}:</span>
+                          <span className="font-semibold text-indigo-800">
+                            {formatMoney(year.difference, { signed: true })}
+                            {year.cumulativeRoi !== 0 && ` · ${year.cumulativeRoi}% ROI`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {/* Tax Settings */}
+                {isAfterTaxView && summaryMetrics.afterTax && (
+                  <div className="bg-amber-50 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="text-sm text-amber-600">Corporate Tax</div>
+                      <label htmlFor="tax-rate" className="flex items-center gap-1 text-xs text-amber-700">
+                        Rate
+                        <input
+                          type="number"
+                          id="tax-rate"
+                          step="0.5"
+                          min="0"
+                          max="60"
+                          value={Math.round(taxConfig.rate * 1000) / 10}
+                          onChange={(e) => setTaxConfig({ ...taxConfig, rate: Math.min(60, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                          className="w-14 p-1 text-xs border border-amber-200 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        />
+                        %
+                      </label>
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      <label className="flex items-center gap-2 text-amber-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={taxConfig.lossCarryForward}
+                          onChange={(e) => setTaxConfig({ ...taxConfig, lossCarryForward: e.target.checked })}
+                          className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+                        />
+                        Carry losses forward
+                      </label>
+                      <label className="flex items-center gap-2 text-amber-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={taxConfig.depreciationShield}
+                          onChange={(e) => setTaxConfig({ ...taxConfig, depreciationShield: e.target.checked })}
+                          className="w-4 h-4 text-purple-600 bg-gray-100 border-gray-300 rounded focus:ring-purple-500 focus:ring-2"
+                        />
+                        Deduct capex depreciation
+                      </label>
+                      <div className="flex justify-between border-t border-amber-200 pt-2">
+                        <span className="text-amber-700">Tax ({summaryMetrics.horizonMonths} mo):</span>
+                        <span className="font-semibold text-amber-800">{formatMoney(summaryMetrics.afterTax.totalTax)}</span>
+                      </div>
+                      {summaryMetrics.afterTax.lossCarriedForward > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-amber-700">Unused Losses:</span>
+                          <span className="font-semibold text-amber-800">{formatMoney(summaryMetrics.afterTax.lossCarriedForward)}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+                
+                {/* Discounted Returns */}
+                <div className="bg-teal-50 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="text-sm text-teal-600">Discounted Returns</div>
+                    <label htmlFor="discount-rate" className="flex items-center gap-1 text-xs text-teal-700">
+                      Rate
+                      <input
+                        type="number"
+                        id="discount-rate"
+                        step="0.5"
+                        min="0"
+                        value={Math.round(discountRate * 1000) / 10}
+                        onChange={(e) => handleDiscountRateChange(e.target.value)}
+                        className="w-14 p-1 text-xs border border-teal-200 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      />
+                      %
+                    </label>
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-teal-700">NPV ({summaryMetrics.horizonMonths} mo):</span>
+                      <span className={`font-semibold ${summaryMetrics.npv >= 0 ? 'text-teal-800' : 'text-red-600'}`}>
+                        {formatMoney(summaryMetrics.npv)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-teal-700">IRR:</span>
+                      <span className="font-semibold text-teal-800">{summaryMetrics.irr !== null ? `${summaryMetrics.irr}%` : 'n/a'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-teal-700">Discounted Payback:</span>
+                      <span className="font-semibold text-teal-800">
+                        {summaryMetrics.discountedPaybackMonth === null ? 'Not reached' : summaryMetrics.discountedPaybackMonth === 0 ? 'Immediate' : `Month ${summaryMetrics.discountedPaybackMonth}`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-teal-700">Profitability Index:</span>
+                      <span className="font-semibold text-teal-800">{summaryMetrics.profitabilityIndex !== null ? summaryMetrics.profitabilityIndex.toFixed(2) : 'n/a'}</span>
+                    </div>
                   </div>
                 </div>
                 
@@ -473,7 +1183,7 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                       <div>
                         <div className="text-sm text-orange-600 mb-1">Investment Breakdown</div>
                         <div className="text-lg font-bold text-orange-700">
-                          Total Monthly Investment: ${investmentBreakdown.totalMonthlyCost.toLocaleString()}
+                          Total Monthly Investment: {formatMoney(investmentBreakdown.totalMonthlyCost)}
                         </div>
                       </div>
                       <div className="ml-2">
@@ -490,31 +1200,43 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                         {investmentBreakdown.laborAutomationCost > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-orange-700">Labor Automation Cost:</span>
-                            <span className="font-semibold text-orange-800">${investmentBreakdown.laborAutomationCost.toLocaleString()}/month</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.laborAutomationCost)}/month</span>
                           </div>
                         )}
                         {investmentBreakdown.productionEfficiencyCost > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-orange-700">Production Efficiency Cost:</span>
-                            <span className="font-semibold text-orange-800">${investmentBreakdown.productionEfficiencyCost.toLocaleString()}/month</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.productionEfficiencyCost)}/month</span>
+                          </div>
+                        )}
+                        {investmentBreakdown.capitalChargeCost > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-orange-700">Depreciation &amp; Financing:</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.capitalChargeCost)}/month</span>
                           </div>
                         )}
                         {investmentBreakdown.inventorySystemCost > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-orange-700">Inventory System Cost:</span>
-                            <span className="font-semibold text-orange-800">${investmentBreakdown.inventorySystemCost.toLocaleString()}/month</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.inventorySystemCost)}/month</span>
                           </div>
                         )}
                         {investmentBreakdown.marketingSpendCost > 0 && (
                           <div className="flex justify-between text-sm">
                             <span className="text-orange-700">Additional Marketing Spend:</span>
-                            <span className="font-semibold text-orange-800">${investmentBreakdown.marketingSpendCost.toLocaleString()}/month</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.marketingSpendCost)}/month</span>
                           </div>
                         )}
                         <div className="flex justify-between text-sm font-bold border-t border-orange-200 pt-2">
                           <span className="text-orange-700">Total Monthly Investment:</span>
-                          <span className="text-orange-800">${investmentBreakdown.totalMonthlyCost.toLocaleString()}</span>
+                          <span className="text-orange-800">{formatMoney(investmentBreakdown.totalMonthlyCost)}</span>
                         </div>
+                        {investmentBreakdown.upfrontCapex > 0 && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-orange-700">Up-front Capex:</span>
+                            <span className="font-semibold text-orange-800">{formatMoney(investmentBreakdown.upfrontCapex)}</span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -523,6 +1245,9 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
             </CardContent>
           </Card>
           
+          {/* Goal Seek */}
+          <GoalSeekPanel scenario={currentScenario} levers={goalSeekLevers} onApply={handleApplyGoalSeek} />
+          
           {/* AI Advisor */}
           <Card className="professional-card">
             <CardHeader>
@@ -544,7 +1269,7 @@ const Sandbox: React.FC<SandboxProps> = ({ simulationData }) => {
                   </p>
                   <p className="text-sm professional-text">
                     {marketingValue > baselineData.marketingSpend 
-                      ? `Marketing investment shows diminishing returns beyond $${(baselineData.marketingSpend / 1000).toFixed(0)}k/month.`
+                      ? `Marketing investment shows diminishing returns beyond ${formatCompactMoney(baselineData.marketingSpend)}/month.`
                       : 'Consider increasing marketing spend for potential revenue growth.'}
                   </p>
                   <p className="text-sm professional-text">
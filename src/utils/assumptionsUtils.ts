@@ -0,0 +1,221 @@
+// Assumptions registry: every engine constant with its default, description and valid range
+
+import type { PLData } from './simulationUtils';
+import { DEFAULT_DISCOUNT_RATE } from './financeUtils';
+
+export interface SimulationAssumptions {
+  baselineAutomationLevel: number;
+  automationInvestmentPerTier: number;
+  baselineEfficiency: number;
+  efficiencyCogsShare: number;
+  cogsReductionPerTier: number;
+  capacityGainPerTier: number;
+  efficiencyCostPerTier: number;
+  baselineInventoryTurns: number;
+  carryingCostPerTurn: number;
+  wasteReductionPerTurn: number;
+  inventorySystemCostPerStep: number;
+  workingCapitalReleasePerTurn: number;
+  marketingTierSize: number;
+  marketingFirstTierBoost: number;
+  marketingSecondTierBoost: number;
+  marketingLaterTierBoost: number;
+  marketingMaxBoost: number;
+  diminishingReturnsScale: number;
+  adoptionMidpoint: number;
+  adoptionSteepness: number;
+  confidenceBand: number;
+  discountRate: number;
+}
+
+export type AssumptionId = keyof SimulationAssumptions;
+
+export type AssumptionGroup = 'Automation' | 'Production Efficiency' | 'Inventory' | 'Marketing' | 'Response Curves' | 'Forecast';
+
+export interface AssumptionDefinition {
+  id: AssumptionId;
+  group: AssumptionGroup;
+  label: string;
+  description: string;
+  unit: 'percent' | 'share' | 'currency' | 'turns' | 'tiers' | 'number';
+  defaultValue: number;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const ASSUMPTION_DEFINITIONS: AssumptionDefinition[] = [
+  {
+    id: 'baselineAutomationLevel', group: 'Automation', label: 'Baseline automation level', unit: 'percent',
+    description: "Automation already in place today; the automation slider's savings are measured from here.",
+    defaultValue: 10, min: 0, max: 50, step: 5
+  },
+  {
+    id: 'automationInvestmentPerTier', group: 'Automation', label: 'Automation fee per tier', unit: 'currency',
+    description: 'Monthly cost of each extra 10 points of automation.',
+    defaultValue: 2000, min: 0, max: 20000, step: 100
+  },
+  {
+    id: 'baselineEfficiency', group: 'Production Efficiency', label: 'Baseline efficiency', unit: 'percent',
+    description: 'Production efficiency today; efficiency gains are measured from here.',
+    defaultValue: 100, min: 50, max: 150, step: 5
+  },
+  {
+    id: 'efficiencyCogsShare', group: 'Production Efficiency', label: 'COGS share of revenue', unit: 'share',
+    description: 'COGS base that efficiency savings apply to, as a share of revenue.',
+    defaultValue: 0.6, min: 0, max: 1, step: 0.01
+  },
+  {
+    id: 'cogsReductionPerTier', group: 'Production Efficiency', label: 'COGS saved per tier', unit: 'share',
+    description: 'Share of the COGS base saved per 10 points of efficiency; a calibrated value takes precedence.',
+    defaultValue: 0.06, min: 0, max: 0.2, step: 0.005
+  },
+  {
+    id: 'capacityGainPerTier', group: 'Production Efficiency', label: 'Revenue potential per tier', unit: 'share',
+    description: 'Extra revenue the freed-up capacity can earn per 10 points of efficiency.',
+    defaultValue: 0.05, min: 0, max: 0.2, step: 0.005
+  },
+  {
+    id: 'efficiencyCostPerTier', group: 'Production Efficiency', label: 'Efficiency fee per tier', unit: 'currency',
+    description: 'Monthly implementation cost of each 10 points of efficiency.',
+    defaultValue: 1500, min: 0, max: 20000, step: 100
+  },
+  {
+    id: 'baselineInventoryTurns', group: 'Inventory', label: 'Baseline inventory turns', unit: 'turns',
+    description: 'Inventory turns per year today; turnover savings are measured from here.',
+    defaultValue: 6, min: 1, max: 24, step: 1
+  },
+  {
+    id: 'carryingCostPerTurn', group: 'Inventory', label: 'Carrying cost per turn', unit: 'currency',
+    description: 'Monthly carrying cost saved per extra turn; a calibrated value takes precedence.',
+    defaultValue: 500, min: 0, max: 10000, step: 50
+  },
+  {
+    id: 'wasteReductionPerTurn', group: 'Inventory', label: 'Waste saved per turn', unit: 'currency',
+    description: 'Monthly waste and obsolescence saved per extra turn.',
+    defaultValue: 300, min: 0, max: 10000, step: 50
+  },
+  {
+    id: 'inventorySystemCostPerStep', group: 'Inventory', label: 'Inventory system fee per 2x', unit: 'currency',
+    description: 'Monthly inventory-management cost for each two extra turns.',
+    defaultValue: 800, min: 0, max: 10000, step: 50
+  },
+  {
+    id: 'workingCapitalReleasePerTurn', group: 'Inventory', label: 'Working capital released per turn', unit: 'share',
+    description: 'Share of working capital freed per extra turn; a cash effect, not profit.',
+    defaultValue: 0.03, min: 0, max: 0.2, step: 0.005
+  },
+  {
+    id: 'marketingTierSize', group: 'Marketing', label: 'Marketing tier size', unit: 'currency',
+    description: 'Extra monthly spend in each diminishing-returns tier.',
+    defaultValue: 10000, min: 1000, max: 100000, step: 1000
+  },
+  {
+    id: 'marketingFirstTierBoost', group: 'Marketing', label: 'First tier revenue boost', unit: 'share',
+    description: 'Revenue lift from the first tier of extra spend.',
+    defaultValue: 0.2, min: 0, max: 1, step: 0.01
+  },
+  {
+    id: 'marketingSecondTierBoost', group: 'Marketing', label: 'Second tier revenue boost', unit: 'share',
+    description: 'Revenue lift from the second tier of extra spend.',
+    defaultValue: 0.1, min: 0, max: 1, step: 0.01
+  },
+  {
+    id: 'marketingLaterTierBoost', group: 'Marketing', label: 'Later tier revenue boost', unit: 'share',
+    description: 'Revenue lift from each further tier of extra spend.',
+    defaultValue: 0.05, min: 0, max: 1, step: 0.01
+  },
+  {
+    id: 'marketingMaxBoost', group: 'Marketing', label: 'Maximum marketing boost', unit: 'share',
+    description: 'Cap on the total revenue lift from marketing.',
+    defaultValue: 0.5, min: 0, max: 2, step: 0.05
+  },
+  {
+    id: 'diminishingReturnsScale', group: 'Response Curves', label: 'Diminishing returns scale', unit: 'tiers',
+    description: 'Tiers of improvement at which each further tier is worth about a third of the first.',
+    defaultValue: 4, min: 1, max: 10, step: 0.5
+  },
+  {
+    id: 'adoptionMidpoint', group: 'Response Curves', label: 'Adoption midpoint', unit: 'tiers',
+    description: 'Tiers of improvement at which S-curve adoption is fastest.',
+    defaultValue: 2, min: 0.5, max: 5, step: 0.5
+  },
+  {
+    id: 'adoptionSteepness', group: 'Response Curves', label: 'Adoption steepness', unit: 'number',
+    description: 'How sharply S-curve adoption accelerates around its midpoint.',
+    defaultValue: 1.5, min: 0.5, max: 5, step: 0.1
+  },
+  {
+    id: 'confidenceBand', group: 'Forecast', label: 'Confidence band', unit: 'share',
+    description: "Half-width of the forecast confidence band around each month's profit.",
+    defaultValue: 0.15, min: 0, max: 0.5, step: 0.01
+  },
+  {
+    id: 'discountRate', group: 'Forecast', label: 'Discount rate', unit: 'share',
+    description: 'Annual rate for NPV, IRR and discounted payback in the Sandbox and the PDF report.',
+    defaultValue: DEFAULT_DISCOUNT_RATE, min: 0, max: 0.5, step: 0.005
+  }
+];
+
+export const DEFAULT_ASSUMPTIONS = Object.fromEntries(
+  ASSUMPTION_DEFINITIONS.map(definition => [definition.id, definition.defaultValue])
+) as unknown as SimulationAssumptions;
+
+export const getAssumptionDefinition = (id: AssumptionId) => ASSUMPTION_DEFINITIONS.find(definition => definition.id === id);
+
+// Overrides are clamped to each assumption's valid range; anything missing keeps its default
+export const resolveAssumptions = (overrides: Partial<SimulationAssumptions> = {}): SimulationAssumptions => ({
+  ...DEFAULT_ASSUMPTIONS,
+  ...Object.fromEntries(
+    Object.entries(overrides)
+      .filter(([id, value]) => getAssumptionDefinition(id as AssumptionId) && Number.isFinite(value))
+      .map(([id, value]) => {
+        const { min, max } = getAssumptionDefinition(id as AssumptionId);
+        return [id, Math.min(max, Math.max(min, value))];
+      })
+  )
+});
+
+// Assumptions in effect for a P&L; edited values ride on it like product lines, headcount and calibration
+export const getAssumptions = (baselineData: PLData) => resolveAssumptions(baselineData.assumptions);
+
+export const applyAssumptions = (baselineData: PLData, overrides: Partial<SimulationAssumptions>): PLData =>
+  Object.keys(overrides).length > 0 ? { ...baselineData, assumptions: overrides } : baselineData;
+
+export const formatAssumptionValue = (definition: AssumptionDefinition, value: number, formatCurrency: (value: number) => string) => {
+  switch (definition.unit) {
+    case 'share':
+      return `${Math.round(value * 1000) / 10}%`;
+    case 'percent':
+      return `${value}%`;
+    case 'turns':
+      return `${value}x`;
+    case 'tiers':
+      return `${value} ${value === 1 ? 'tier' : 'tiers'}`;
+    case 'number':
+      return `${value}`;
+    default:
+      return formatCurrency(value);
+  }
+};
+
+const STORAGE_KEY = 'simulationAssumptions';
+
+// Edited assumptions persist so the report lists the same values the Sandbox ran with
+export const loadAssumptionOverrides = (): Partial<SimulationAssumptions> => {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading assumptions:', error);
+    return {};
+  }
+};
+
+export const saveAssumptionOverrides = (overrides: Partial<SimulationAssumptions>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Error saving assumptions:', error);
+  }
+};
@@ -0,0 +1,125 @@
+// Industry benchmarks: where the company sits against peer ranges for margin, labor, inventory and automation
+
+import {
+  calculateLaborAutomationImpact,
+  type PLData,
+  type ForecastData,
+  type OperationalFactors
+} from './simulationUtils';
+import { getAssumptions } from './assumptionsUtils';
+import benchmarks2026 from '@/data/benchmarks/industry-benchmarks-2026.1.json';
+
+export type BenchmarkMetricId = 'grossMargin' | 'laborShare' | 'inventoryTurns' | 'automationLevel';
+
+export interface BenchmarkRange {
+  p25: number;
+  median: number;
+  p75: number;
+}
+
+export type IndustryBenchmark = Partial<Record<BenchmarkMetricId, BenchmarkRange>>; // metrics that don't apply are left out
+
+export interface BenchmarkDataset {
+  version: string;
+  effectiveDate: string; // ISO date the figures apply from
+  source: string;
+  industries: Record<string, IndustryBenchmark>;
+}
+
+export type BenchmarkValues = Partial<Record<BenchmarkMetricId, number>>;
+
+export interface BenchmarkComparison {
+  id: BenchmarkMetricId;
+  value: number;
+  range: BenchmarkRange;
+  percentile: number; // 1-99, interpolated between the quartiles
+  quartile: 'bottom' | 'middle' | 'top'; // below p25, inside the interquartile range, above p75
+  favorable: boolean; // at or past the median in the metric's better direction
+}
+
+export const BENCHMARK_METRICS: Record<BenchmarkMetricId, { label: string; unit: 'share' | 'percent' | 'turns'; higherIsBetter: boolean }> = {
+  grossMargin: { label: 'Gross Margin', unit: 'share', higherIsBetter: true },
+  laborShare: { label: 'Labor Cost / Revenue', unit: 'share', higherIsBetter: false },
+  inventoryTurns: { label: 'Inventory Turns', unit: 'turns', higherIsBetter: true },
+  automationLevel: { label: 'Automation Level', unit: 'percent', higherIsBetter: true }
+};
+
+export const FALLBACK_INDUSTRY = 'Other';
+
+// Released datasets, newest first. To update the figures add a new industry-benchmarks-<version>.json
+// under src/data/benchmarks rather than editing a released file, and list it here.
+export const BENCHMARK_DATASETS: BenchmarkDataset[] = [benchmarks2026];
+
+export const getBenchmarkDataset = (version?: string) =>
+  BENCHMARK_DATASETS.find(dataset => dataset.version === version) || BENCHMARK_DATASETS[0];
+
+// Peer ranges for an industry; unknown or missing industries use the cross-industry ranges
+export const getIndustryBenchmark = (industry?: string, dataset: BenchmarkDataset = getBenchmarkDataset()) => {
+  const name = industry && dataset.industries[industry] ? industry : FALLBACK_INDUSTRY;
+  return { industry: name, benchmark: dataset.industries[name] || {} };
+};
+
+// Rough peer percentile: the quartiles map to 25/50/75 and the tails extend at the upper half's spread
+export const estimatePercentile = (value: number, range: BenchmarkRange) => {
+  const spread = Math.max(range.p75 - range.median, range.median - range.p25, 1e-9);
+  let percentile;
+  if (value <= range.p25) {
+    percentile = 25 - ((range.p25 - value) / spread) * 25;
+  } else if (value <= range.median) {
+    percentile = 25 + ((value - range.p25) / Math.max(range.median - range.p25, 1e-9)) * 25;
+  } else if (value <= range.p75) {
+    percentile = 50 + ((value - range.median) / Math.max(range.p75 - range.median, 1e-9)) * 25;
+  } else {
+    percentile = 75 + ((value - range.p75) / spread) * 25;
+  }
+  return Math.min(99, Math.max(1, Math.round(percentile)));
+};
+
+export const compareToBenchmark = (id: BenchmarkMetricId, value: number, range: BenchmarkRange): BenchmarkComparison => {
+  const { higherIsBetter } = BENCHMARK_METRICS[id];
+  return {
+    id,
+    value,
+    range,
+    percentile: estimatePercentile(value, range),
+    quartile: value < range.p25 ? 'bottom' : value > range.p75 ? 'top' : 'middle',
+    favorable: higherIsBetter ? value >= range.median : value <= range.median
+  };
+};
+
+// Benchmark metrics for today's P&L; operational levels come from the baseline assumptions when not given
+export const getCompanyBenchmarkValues = (plData: PLData, factors?: Pick<OperationalFactors, 'laborAutomationLevel' | 'inventoryTurnoverRate'>): BenchmarkValues => {
+  const revenue = plData.monthlyRevenue;
+  return {
+    grossMargin: revenue > 0 ? (revenue - plData.monthlyCOGS) / revenue : undefined,
+    laborShare: revenue > 0 ? plData.monthlyLabor / revenue : undefined,
+    inventoryTurns: factors?.inventoryTurnoverRate ?? getAssumptions(plData).baselineInventoryTurns,
+    automationLevel: factors?.laborAutomationLevel ?? getAssumptions(plData).baselineAutomationLevel
+  };
+};
+
+// The same metrics under the scenario: forecast margin, labor after automation savings, the chosen levels
+export const getScenarioBenchmarkValues = (baselineData: PLData, forecastData: ForecastData[], factors: OperationalFactors): BenchmarkValues => {
+  const revenue = forecastData.reduce((sum, month) => sum + month.adjustedRevenue, 0);
+  const cogs = forecastData.reduce((sum, month) => sum + month.adjustedCOGS, 0);
+  const averageRevenue = forecastData.length > 0 ? revenue / forecastData.length : 0;
+  const labor = baselineData.monthlyLabor - calculateLaborAutomationImpact(baselineData, factors.laborAutomationLevel).laborCostReduction;
+
+  return {
+    grossMargin: revenue > 0 ? (revenue - cogs) / revenue : undefined,
+    laborShare: averageRevenue > 0 ? labor / averageRevenue : undefined,
+    inventoryTurns: factors.inventoryTurnoverRate,
+    automationLevel: factors.laborAutomationLevel
+  };
+};
+
+export const formatBenchmarkValue = (id: BenchmarkMetricId, value: number) => {
+  switch (BENCHMARK_METRICS[id].unit) {
+    case 'share':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'percent':
+      return `${Math.round(value)}%`;
+    default:
+      return `${value.toFixed(1)}x`;
+  }
+};
@@ -0,0 +1,73 @@
+// Break-even and contribution margin: COGS is the variable cost, everything else in the P&L is fixed
+
+import type { PLData, ForecastData } from './simulationUtils';
+
+export interface CostStructure {
+  revenue: number;
+  variableCosts: number;
+  fixedCosts: number;
+  units?: number; // unit figures are only reported when volume is known
+}
+
+export interface BreakEvenAnalysis {
+  revenue: number;
+  variableCosts: number;
+  fixedCosts: number;
+  contributionMargin: number;
+  contributionMarginRatio: number; // share of each revenue dollar left after variable costs
+  breakEvenRevenue: number | null; // null when contribution margin is not positive
+  marginOfSafety: number | null; // revenue above break-even
+  marginOfSafetyPercent: number | null;
+  units: number | null;
+  pricePerUnit: number | null;
+  variableCostPerUnit: number | null;
+  contributionMarginPerUnit: number | null;
+  breakEvenUnits: number | null;
+}
+
+export const calculateBreakEven = ({ revenue, variableCosts, fixedCosts, units }: CostStructure): BreakEvenAnalysis => {
+  const contributionMargin = revenue - variableCosts;
+  const contributionMarginRatio = revenue > 0 ? contributionMargin / revenue : 0;
+  const breakEvenRevenue = contributionMarginRatio > 0 ? fixedCosts / contributionMarginRatio : null;
+  const marginOfSafety = breakEvenRevenue !== null ? revenue - breakEvenRevenue : null;
+  const hasUnits = units !== undefined && units > 0;
+
+  return {
+    revenue,
+    variableCosts,
+    fixedCosts,
+    contributionMargin,
+    contributionMarginRatio,
+    breakEvenRevenue,
+    marginOfSafety,
+    marginOfSafetyPercent: marginOfSafety !== null && revenue > 0 ? (marginOfSafety / revenue) * 100 : null,
+    units: hasUnits ? units : null,
+    pricePerUnit: hasUnits ? revenue / units : null,
+    variableCostPerUnit: hasUnits ? variableCosts / units : null,
+    contributionMarginPerUnit: hasUnits ? contributionMargin / units : null,
+    breakEvenUnits: hasUnits && breakEvenRevenue !== null ? breakEvenRevenue / (revenue / units) : null
+  };
+};
+
+// Baseline month: fixed costs are whatever sits between contribution and reported profit
+export const getBaselineBreakEven = (baselineData: PLData) =>
+  calculateBreakEven({
+    revenue: baselineData.monthlyRevenue,
+    variableCosts: baselineData.monthlyCOGS,
+    fixedCosts: baselineData.monthlyRevenue - baselineData.monthlyCOGS - baselineData.monthlyProfit,
+    units: baselineData.unitsSold
+  });
+
+// Adjusted scenario: average month over the first year of the forecast, so seasonality evens out
+export const getForecastBreakEven = (forecastData: ForecastData[], months = 12) => {
+  const window = forecastData.slice(0, months);
+  const count = Math.max(1, window.length);
+  const revenue = window.reduce((sum, month) => sum + month.adjustedRevenue, 0) / count;
+  const variableCosts = window.reduce((sum, month) => sum + month.adjustedCOGS, 0) / count;
+  const profit = window.reduce((sum, month) => sum + month.adjustedProfit, 0) / count;
+  const units = window.every(month => month.unitsSold !== undefined)
+    ? window.reduce((sum, month) => sum + month.unitsSold, 0) / count
+    : undefined;
+
+  return calculateBreakEven({ revenue, variableCosts, fixedCosts: revenue - variableCosts - profit, units });
+};
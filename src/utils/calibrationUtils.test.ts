@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  calibrateCoefficients,
+  loadCalibration,
+  resolveCalibrationCompanyId,
+  saveActiveCompanyId,
+  saveCalibration,
+  type PLHistoryPeriod
+} from './calibrationUtils';
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+// Labor share falls as automation rises, so the labor coefficient fits
+const history: PLHistoryPeriod[] = [10, 20, 30, 40, 50].map((automationLevel, index) => ({
+  period: `2024-0${index + 1}`,
+  revenue: 100000,
+  cogs: 60000,
+  labor: 22000 - automationLevel * 100,
+  overhead: 12000,
+  automationLevel
+}));
+
+describe('calibration storage', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  it('loads a calibration saved at upload in the Sandbox', () => {
+    // Upload step: the company is set up, then its history is calibrated and saved
+    saveActiveCompanyId('acme');
+    const calibration = calibrateCoefficients(history);
+    saveCalibration('acme', calibration);
+
+    // Sandbox route: no simulation data is passed in
+    const companyId = resolveCalibrationCompanyId(undefined);
+    expect(companyId).toBe('acme');
+    expect(loadCalibration(companyId)).toEqual(calibration);
+    expect(loadCalibration(companyId)?.coefficients.laborReductionPerTier).toBeGreaterThan(0);
+  });
+
+  it('prefers the company in the simulation data', () => {
+    saveActiveCompanyId('acme');
+    expect(resolveCalibrationCompanyId({ company_id: 42 })).toBe('42');
+  });
+
+  it('falls back to the sandbox profile before any company is set up', () => {
+    expect(resolveCalibrationCompanyId(null)).toBe('sandbox');
+  });
+});
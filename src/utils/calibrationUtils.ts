@@ -0,0 +1,269 @@
+// Calibration: fit the engine's per-tier impact coefficients to a company's own P&L history
+
+import type { PLData } from './simulationUtils';
+import { convertAmount } from '@/lib/currency';
+import { DEFAULT_ASSUMPTIONS, type SimulationAssumptions } from './assumptionsUtils';
+
+export interface EngineCoefficients {
+  laborReductionPerTier: number; // share of labor cost saved per 10 points of automation
+  cogsReductionPerTier: number; // share of COGS saved per 10 points of production efficiency
+  carryingCostPerTurn: number; // monthly carrying cost saved per extra inventory turn
+}
+
+export type CoefficientId = keyof EngineCoefficients;
+
+export interface PLHistoryPeriod {
+  period: string;
+  revenue: number;
+  cogs: number;
+  labor: number;
+  overhead: number;
+  automationLevel?: number; // % of labor tasks automated in the period
+  productionEfficiency?: number; // % of baseline output per unit of input
+  inventoryTurns?: number; // annualized turns in the period
+}
+
+export interface CoefficientFit {
+  id: CoefficientId;
+  value: number | null; // null when the history can't support a fit
+  rSquared: number | null;
+  periods: number; // periods with the driver recorded
+  usable: boolean; // enough periods, a meaningful fit and a plausible value
+  reason?: string; // why an unusable fit was rejected
+}
+
+export interface CalibrationResult {
+  coefficients: Partial<EngineCoefficients>; // usable fits only; the engine defaults fill the rest
+  fits: CoefficientFit[];
+  periods: number;
+  calibratedAt: string;
+  accepted: boolean; // the user has reviewed the fit and switched the Sandbox to it
+}
+
+export const DEFAULT_ENGINE_COEFFICIENTS: EngineCoefficients = {
+  laborReductionPerTier: 0.08, // flat fallback; the engine uses the rate the role model implies unless calibrated
+  cogsReductionPerTier: DEFAULT_ASSUMPTIONS.cogsReductionPerTier,
+  carryingCostPerTurn: DEFAULT_ASSUMPTIONS.carryingCostPerTurn
+};
+
+export const COEFFICIENT_LABELS: Record<CoefficientId, string> = {
+  laborReductionPerTier: 'Labor saved per automation tier',
+  cogsReductionPerTier: 'COGS saved per efficiency tier',
+  carryingCostPerTurn: 'Carrying cost per inventory turn'
+};
+
+export const MIN_CALIBRATION_PERIODS = 4;
+export const MIN_R_SQUARED = 0.3;
+
+// Fitted values outside these bounds point at something other than the lever moving the cost
+const PLAUSIBLE_RANGES: Record<CoefficientId, [number, number]> = {
+  laborReductionPerTier: [0, 0.3],
+  cogsReductionPerTier: [0, 0.2],
+  carryingCostPerTurn: [0, 10000]
+};
+
+// Ordinary least squares of y on x
+export const fitLinear = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[index] - meanY) ** 2;
+  });
+  const slope = varianceX > 0 ? covariance / varianceX : 0;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared: varianceX > 0 && varianceY > 0 ? (covariance * covariance) / (varianceX * varianceY) : 0
+  };
+};
+
+const fitCoefficient = (
+  id: CoefficientId,
+  history: PLHistoryPeriod[],
+  driver: (period: PLHistoryPeriod) => number | undefined,
+  costShare: (period: PLHistoryPeriod) => number,
+  toCoefficient: (fit: ReturnType<typeof fitLinear>, points: PLHistoryPeriod[]) => number
+): CoefficientFit => {
+  const points = history.filter(period => period.revenue > 0 && Number.isFinite(driver(period)));
+  const base = { id, periods: points.length };
+
+  if (points.length < MIN_CALIBRATION_PERIODS) {
+    return { ...base, value: null, rSquared: null, usable: false, reason: `Needs at least ${MIN_CALIBRATION_PERIODS} periods with the driver recorded` };
+  }
+  if (new Set(points.map(driver)).size < 2) {
+    return { ...base, value: null, rSquared: null, usable: false, reason: 'The driver never changed in the history' };
+  }
+
+  const fit = fitLinear(points.map(driver), points.map(costShare));
+  const value = toCoefficient(fit, points);
+  const [min, max] = PLAUSIBLE_RANGES[id];
+  const result = { ...base, value, rSquared: fit.rSquared };
+
+  if (fit.rSquared < MIN_R_SQUARED) {
+    return { ...result, usable: false, reason: `Fit too weak (R² below ${MIN_R_SQUARED})` };
+  }
+  if (!Number.isFinite(value) || value < min || value > max) {
+    return { ...result, usable: false, reason: 'Fitted value outside the plausible range' };
+  }
+  return { ...result, usable: true };
+};
+
+// Each cost line's share of revenue is regressed on its lever. The labor and COGS slopes become the share
+// saved per 10-point tier relative to the fitted share at the assumed automation and efficiency baselines,
+// which is where the engine applies them; the overhead slope times average revenue is the monthly carrying
+// cost per turn.
+export const calibrateCoefficients = (
+  history: PLHistoryPeriod[],
+  assumptions: SimulationAssumptions = DEFAULT_ASSUMPTIONS
+): CalibrationResult => {
+  const { baselineAutomationLevel, baselineEfficiency } = assumptions;
+  const fits = [
+    fitCoefficient(
+      'laborReductionPerTier',
+      history,
+      period => period.automationLevel,
+      period => period.labor / period.revenue,
+      fit => -(fit.slope * 10) / (fit.intercept + fit.slope * baselineAutomationLevel)
+    ),
+    fitCoefficient(
+      'cogsReductionPerTier',
+      history,
+      period => period.productionEfficiency,
+      period => period.cogs / period.revenue,
+      fit => -(fit.slope * 10) / (fit.intercept + fit.slope * baselineEfficiency)
+    ),
+    fitCoefficient(
+      'carryingCostPerTurn',
+      history,
+      period => period.inventoryTurns,
+      period => period.overhead / period.revenue,
+      (fit, points) => -fit.slope * (points.reduce((sum, period) => sum + period.revenue, 0) / points.length)
+    )
+  ];
+
+  return {
+    coefficients: Object.fromEntries(fits.filter(fit => fit.usable).map(fit => [fit.id, fit.value])),
+    fits,
+    periods: history.length,
+    calibratedAt: new Date().toISOString(),
+    accepted: false
+  };
+};
+
+// Calibrated coefficients ride on the P&L like product lines and headcount; only accepted fits apply
+export const applyCalibration = (baselineData: PLData, calibration: CalibrationResult | null): PLData =>
+  calibration?.accepted && Object.keys(calibration.coefficients).length > 0
+    ? { ...baselineData, coefficients: calibration.coefficients }
+    : baselineData;
+
+const COLUMN_ALIASES: Record<keyof PLHistoryPeriod, string[]> = {
+  period: ['period', 'month', 'date'],
+  revenue: ['revenue', 'sales'],
+  cogs: ['cogs', 'cost_of_goods_sold'],
+  labor: ['labor', 'labor_costs', 'labour'],
+  overhead: ['overhead', 'opex'],
+  automationLevel: ['automation_level', 'automation'],
+  productionEfficiency: ['production_efficiency', 'efficiency'],
+  inventoryTurns: ['inventory_turns', 'inventory_turnover', 'turns']
+};
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.-]/g, ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Amounts are converted into the reporting currency like the rest of the uploaded P&L
+const toPeriod = (read: (key: keyof PLHistoryPeriod) => unknown, index: number): PLHistoryPeriod | null => {
+  const revenue = toNumber(read('revenue'));
+  if (revenue === undefined) return null;
+  return {
+    period: String(read('period') ?? `Period ${index + 1}`),
+    revenue: convertAmount(revenue),
+    cogs: convertAmount(toNumber(read('cogs')) ?? 0),
+    labor: convertAmount(toNumber(read('labor')) ?? 0),
+    overhead: convertAmount(toNumber(read('overhead')) ?? 0),
+    automationLevel: toNumber(read('automationLevel')),
+    productionEfficiency: toNumber(read('productionEfficiency')),
+    inventoryTurns: toNumber(read('inventoryTurns'))
+  };
+};
+
+// Parse P&L history CSV with a header row naming the columns, e.g. period,revenue,cogs,labor,overhead,automation_level
+export const parsePLHistoryCsv = (text: string): PLHistoryPeriod[] => {
+  const [headerRow, ...rows] = text.split(/\r?\n/).map(row => row.trim()).filter(Boolean);
+  if (!headerRow) return [];
+  const headers = headerRow.split(/[,;\t]/).map(header => header.trim().toLowerCase().replace(/\s+/g, '_'));
+  const columnIndex = (key: keyof PLHistoryPeriod) => headers.findIndex(header => COLUMN_ALIASES[key].includes(header));
+
+  return rows
+    .map((row, index) => {
+      const cells = row.split(/[,;\t]/);
+      return toPeriod(key => (columnIndex(key) >= 0 ? cells[columnIndex(key)]?.trim() : undefined), index);
+    })
+    .filter((period): period is PLHistoryPeriod => period !== null);
+};
+
+// Pull multi-period P&L history out of extracted P&L data when the backend provides it
+export const extractPLHistory = (data?: { pl_history?: unknown; periods?: unknown }): PLHistoryPeriod[] => {
+  const series = data?.pl_history || data?.periods;
+  if (!Array.isArray(series)) return [];
+
+  return series
+    .map((entry, index) => toPeriod(key => {
+      const alias = COLUMN_ALIASES[key].find(name => entry?.[name] !== undefined);
+      return alias ? entry[alias] : entry?.[key];
+    }, index))
+    .filter((period): period is PLHistoryPeriod => period !== null);
+};
+
+const storageKey = (companyId: string) => `calibration:${companyId}`;
+const ACTIVE_COMPANY_KEY = 'calibration:activeCompany';
+const DEFAULT_COMPANY_ID = 'sandbox';
+
+// The company profile last set up in the simulation; the Sandbox opens its calibration when no data is passed in
+export const saveActiveCompanyId = (companyId: string) => {
+  try {
+    localStorage.setItem(ACTIVE_COMPANY_KEY, companyId);
+  } catch (error) {
+    console.error('Error saving active company:', error);
+  }
+};
+
+export const resolveCalibrationCompanyId = (simulationData?: { company_id?: unknown } | null) => {
+  if (simulationData?.company_id) return String(simulationData.company_id);
+  try {
+    return (typeof localStorage !== 'undefined' && localStorage.getItem(ACTIVE_COMPANY_KEY)) || DEFAULT_COMPANY_ID;
+  } catch (error) {
+    console.error('Error reading active company:', error);
+    return DEFAULT_COMPANY_ID;
+  }
+};
+
+// Calibrations are kept with the company profile so a fit reviewed once carries across sessions
+export const loadCalibration = (companyId: string): CalibrationResult | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(companyId));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading calibration:', error);
+    return null;
+  }
+};
+
+export const saveCalibration = (companyId: string, calibration: CalibrationResult | null) => {
+  try {
+    if (calibration) {
+      localStorage.setItem(storageKey(companyId), JSON.stringify(calibration));
+    } else {
+      localStorage.removeItem(storageKey(companyId));
+    }
+  } catch (error) {
+    console.error('Error saving calibration:', error);
+  }
+};
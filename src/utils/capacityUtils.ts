@@ -0,0 +1,49 @@
+// Production capacity: caps units sold, tracks unmet demand and flags when more capacity is needed
+
+import type { PLData, ForecastData } from './simulationUtils';
+
+export interface CapacityModel {
+  baseUnitsPerMonth: number; // capacity at 100% production efficiency and current staffing
+  laborCapacityFactor: number; // shifts/overtime: 1.2 = 20% more labor hours and labor cost
+}
+
+export interface CapacitySummary {
+  constrainedMonths: number;
+  firstConstrainedMonth: string | null;
+  peakUtilization: number; // percent of capacity
+  totalUnmetUnits: number;
+  totalLostRevenue: number;
+  additionalUnitsNeeded: number; // extra monthly capacity that would clear the worst month
+  needsInvestment: boolean;
+}
+
+// Baseline plants typically run around 75% utilization, leaving room for seasonal peaks
+export const DEFAULT_BASE_UTILIZATION = 0.75;
+
+export const getDefaultCapacityModel = (baselineData: PLData): CapacityModel => ({
+  baseUnitsPerMonth: Math.round(baselineData.unitsSold / DEFAULT_BASE_UTILIZATION),
+  laborCapacityFactor: 1
+});
+
+// Monthly unit capacity: efficiency gains and extra labor hours both raise throughput
+export const calculateCapacityUnits = (model: CapacityModel, efficiencyLevel = 100) =>
+  model.baseUnitsPerMonth * (efficiencyLevel / 100) * model.laborCapacityFactor;
+
+export const summarizeCapacity = (forecastData: ForecastData[]): CapacitySummary => {
+  const constrained = forecastData.filter(month => (month.unmetUnits || 0) > 0);
+  const peakUtilization = forecastData.reduce(
+    (peak, month) => (month.capacityUnits ? Math.max(peak, (month.demandUnits / month.capacityUnits) * 100) : peak),
+    0
+  );
+  const additionalUnitsNeeded = constrained.reduce((max, month) => Math.max(max, month.unmetUnits), 0);
+
+  return {
+    constrainedMonths: constrained.length,
+    firstConstrainedMonth: constrained[0]?.month || null,
+    peakUtilization: Math.round(peakUtilization),
+    totalUnmetUnits: Math.round(constrained.reduce((sum, month) => sum + month.unmetUnits, 0)),
+    totalLostRevenue: Math.round(constrained.reduce((sum, month) => sum + (month.lostRevenue || 0), 0)),
+    additionalUnitsNeeded: Math.round(additionalUnitsNeeded),
+    needsInvestment: constrained.length > 0
+  };
+};
@@ -0,0 +1,115 @@
+// Cash-flow and working-capital projection alongside the profit forecast
+
+import type { PLData, ForecastData } from './simulationUtils';
+import { getAssumptions } from './assumptionsUtils';
+
+export interface CapexItem {
+  month: number; // 1-based forecast month
+  amount: number;
+  label?: string;
+}
+
+export interface WorkingCapitalAssumptions {
+  openingCash: number;
+  receivableDays: number; // days sales outstanding
+  payableDays: number; // days payables outstanding
+  inventoryDays: number; // days inventory outstanding
+  baselineInventoryDays: number; // inventory days before any changes, sets the opening balance
+  capex: CapexItem[];
+}
+
+export interface CashFlowData {
+  month: string;
+  profit: number;
+  receivables: number;
+  inventory: number;
+  payables: number;
+  workingCapitalChange: number; // positive = cash tied up
+  operatingCashFlow: number;
+  capex: number;
+  netCashFlow: number;
+  cashBalance: number;
+}
+
+export interface CashFlowSummary {
+  endingCash: number;
+  lowestCash: number;
+  lowestCashMonth: string;
+  firstNegativeMonth: string | null;
+  workingCapitalReleased: number;
+  totalCapex: number;
+}
+
+const DAYS_PER_MONTH = 365 / 12;
+
+// Inventory days implied by an annual turnover rate
+export const inventoryDaysFromTurnover = (turnoverRate: number) => (turnoverRate > 0 ? 365 / turnoverRate : 0);
+
+export const getDefaultWorkingCapitalAssumptions = (baselineData: PLData): WorkingCapitalAssumptions => ({
+  openingCash: Math.round(baselineData.monthlyRevenue * 0.5),
+  receivableDays: 30,
+  payableDays: 30,
+  inventoryDays: inventoryDaysFromTurnover(getAssumptions(baselineData).baselineInventoryTurns),
+  baselineInventoryDays: inventoryDaysFromTurnover(getAssumptions(baselineData).baselineInventoryTurns),
+  capex: []
+});
+
+const workingCapitalBalances = (revenue: number, cogs: number, assumptions: { receivableDays: number; payableDays: number }, inventoryDays: number) => ({
+  receivables: (revenue / DAYS_PER_MONTH) * assumptions.receivableDays,
+  inventory: (cogs / DAYS_PER_MONTH) * inventoryDays,
+  payables: (cogs / DAYS_PER_MONTH) * assumptions.payableDays
+});
+
+// Project monthly cash from forecast profit, working-capital movements and capex timing
+export const generateCashFlowProjection = (
+  baselineData: PLData,
+  forecastData: ForecastData[],
+  assumptions: WorkingCapitalAssumptions
+): CashFlowData[] => {
+  // Opening working capital reflects the business before any Sandbox changes
+  const opening = workingCapitalBalances(baselineData.monthlyRevenue, baselineData.monthlyCOGS, assumptions, assumptions.baselineInventoryDays);
+  let previousWorkingCapital = opening.receivables + opening.inventory - opening.payables;
+  let cashBalance = assumptions.openingCash;
+
+  return forecastData.map((month, index) => {
+    const balances = workingCapitalBalances(month.adjustedRevenue, month.adjustedCOGS, assumptions, assumptions.inventoryDays);
+    const workingCapital = balances.receivables + balances.inventory - balances.payables;
+    const workingCapitalChange = workingCapital - previousWorkingCapital;
+    previousWorkingCapital = workingCapital;
+
+    // Investment charges in profit are replaced by the cash actually paid for the investment
+    const operatingCashFlow = month.adjustedProfit + (month.investmentExpense || 0) - workingCapitalChange;
+    const capex = assumptions.capex
+      .filter(item => item.month === index + 1)
+      .reduce((sum, item) => sum + item.amount, month.investmentCashFlow || 0);
+    const netCashFlow = operatingCashFlow - capex;
+    cashBalance += netCashFlow;
+
+    return {
+      month: month.month,
+      profit: month.adjustedProfit,
+      receivables: Math.round(balances.receivables),
+      inventory: Math.round(balances.inventory),
+      payables: Math.round(balances.payables),
+      workingCapitalChange: Math.round(workingCapitalChange),
+      operatingCashFlow: Math.round(operatingCashFlow),
+      capex: Math.round(capex),
+      netCashFlow: Math.round(netCashFlow),
+      cashBalance: Math.round(cashBalance)
+    };
+  });
+};
+
+export const summarizeCashFlow = (cashFlow: CashFlowData[]): CashFlowSummary => {
+  const lowest = cashFlow.reduce((min, month) => (month.cashBalance < min.cashBalance ? month : min), cashFlow[0]);
+  const firstNegative = cashFlow.find(month => month.cashBalance < 0);
+
+  return {
+    endingCash: cashFlow[cashFlow.length - 1]?.cashBalance || 0,
+    lowestCash: lowest?.cashBalance || 0,
+    lowestCashMonth: lowest?.month || '',
+    firstNegativeMonth: firstNegative ? firstNegative.month : null,
+    workingCapitalReleased: -cashFlow.reduce((sum, month) => sum + month.workingCapitalChange, 0),
+    totalCapex: cashFlow.reduce((sum, month) => sum + month.capex, 0)
+  };
+};
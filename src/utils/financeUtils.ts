@@ -0,0 +1,82 @@
+// Discounted cash flow helpers: NPV, IRR, discounted payback and profitability index
+// Cash flows are monthly; index 0 is the up-front flow at time zero
+
+export interface DiscountedMetrics {
+  npv: number;
+  irr: number | null; // annualized, as a percentage; null when flows never change sign
+  discountedPaybackMonth: number | null; // null when the investment is not recovered
+  profitabilityIndex: number | null; // PV of benefits / PV of investment; null without investment
+}
+
+export const DEFAULT_DISCOUNT_RATE = 0.1;
+
+// Convert an annual rate to the equivalent monthly rate
+export const toMonthlyRate = (annualRate: number) => Math.pow(1 + annualRate, 1 / 12) - 1;
+
+export const calculateNPV = (monthlyRate: number, cashFlows: number[]) =>
+  cashFlows.reduce((sum, flow, t) => sum + flow / Math.pow(1 + monthlyRate, t), 0);
+
+// Monthly IRR by bisection, returned as an annualized percentage
+export const calculateIRR = (cashFlows: number[]): number | null => {
+  const hasPositive = cashFlows.some(flow => flow > 0);
+  const hasNegative = cashFlows.some(flow => flow < 0);
+  if (!hasPositive || !hasNegative) return null;
+
+  let low = -0.99;
+  let high = 10;
+  let npvLow = calculateNPV(low, cashFlows);
+  const npvHigh = calculateNPV(high, cashFlows);
+  if (npvLow * npvHigh > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-6) {
+      low = high = mid;
+      break;
+    }
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+
+  const monthlyIrr = (low + high) / 2;
+  return Math.round((Math.pow(1 + monthlyIrr, 12) - 1) * 1000) / 10;
+};
+
+// First month in which cumulative discounted cash flow recovers to zero (0 if it never dips)
+export const calculateDiscountedPayback = (monthlyRate: number, cashFlows: number[]): number | null => {
+  let cumulative = 0;
+  let wasNegative = false;
+  for (let t = 0; t < cashFlows.length; t++) {
+    cumulative += cashFlows[t] / Math.pow(1 + monthlyRate, t);
+    if (cumulative < 0) {
+      wasNegative = true;
+    } else if (wasNegative) {
+      return t;
+    }
+  }
+  return wasNegative ? null : 0;
+};
+
+// Evaluate benefit and investment streams (same length, index 0 = time zero)
+export const calculateDiscountedMetrics = (
+  benefitFlows: number[],
+  investmentFlows: number[],
+  annualDiscountRate: number = DEFAULT_DISCOUNT_RATE
+): DiscountedMetrics => {
+  const monthlyRate = toMonthlyRate(annualDiscountRate);
+  const netFlows = benefitFlows.map((benefit, t) => benefit - (investmentFlows[t] || 0));
+  const presentBenefits = calculateNPV(monthlyRate, benefitFlows);
+  const presentInvestment = calculateNPV(monthlyRate, investmentFlows);
+
+  return {
+    npv: Math.round(calculateNPV(monthlyRate, netFlows)),
+    irr: calculateIRR(netFlows),
+    discountedPaybackMonth: calculateDiscountedPayback(monthlyRate, netFlows),
+    profitabilityIndex: presentInvestment > 0 ? Math.round((presentBenefits / presentInvestment) * 100) / 100 : null
+  };
+};
@@ -0,0 +1,219 @@
+// Inverse solver: search the Sandbox slider space for the cheapest way to hit a target
+
+import {
+  generateForecastData,
+  calculateSummaryMetrics,
+  calculatePriceImpact,
+  calculateLaborAutomationImpact,
+  calculateProductionEfficiencyImpact,
+  calculateInventoryTurnoverImpact,
+  type OperationalFactors
+} from './simulationUtils';
+import type { SensitivityScenario } from './sensitivityUtils';
+import { getAssumptions } from './assumptionsUtils';
+import { formatMoney } from '@/lib/currency';
+
+export type GoalSeekMetric = 'monthlyProfit' | 'annualDifference' | 'roi';
+
+export type GoalSeekLeverId = 'price' | 'marketing' | keyof OperationalFactors;
+
+export interface GoalSeekLever {
+  id: GoalSeekLeverId;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface GoalSeekTarget {
+  metric: GoalSeekMetric;
+  value: number;
+}
+
+export interface GoalSeekChange {
+  id: GoalSeekLeverId;
+  label: string;
+  from: number;
+  to: number;
+}
+
+export interface GoalSeekSolution {
+  feasible: boolean;
+  scenario: SensitivityScenario;
+  achieved: number;
+  monthlyInvestment: number;
+  changes: GoalSeekChange[];
+  explanation: string[];
+  evaluated: number;
+}
+
+export const GOAL_SEEK_LEVER_LABELS: Record<GoalSeekLeverId, string> = {
+  price: 'Product Price',
+  marketing: 'Marketing Spend',
+  laborAutomationLevel: 'Labor Automation',
+  productionEfficiency: 'Production Efficiency',
+  inventoryTurnoverRate: 'Inventory Turnover'
+};
+
+// Upper bound on grid points per lever
+const MAX_POINTS_PER_LEVER = 9;
+// Cap on forecasts per solve. Coordinate search needs roughly one pass over the lever grids per
+// improvement (at most ~55 forecasts with all five levers free), so the cap only cuts off long tails.
+export const MAX_GOAL_SEEK_EVALUATIONS = 400;
+const MAX_SEARCH_PASSES = 6;
+
+const getLeverValue = (scenario: SensitivityScenario, id: GoalSeekLeverId) => {
+  if (id === 'price') return scenario.priceValue;
+  if (id === 'marketing') return scenario.marketingValue;
+  return scenario.operationalFactors[id];
+};
+
+const setLeverValue = (scenario: SensitivityScenario, id: GoalSeekLeverId, value: number): SensitivityScenario => {
+  if (id === 'price') return { ...scenario, priceValue: value };
+  if (id === 'marketing') return { ...scenario, marketingValue: value };
+  return { ...scenario, operationalFactors: { ...scenario.operationalFactors, [id]: value } };
+};
+
+// Candidate values for a lever: evenly spaced on its step grid, always including the current value
+const buildLeverGrid = (lever: GoalSeekLever, current: number) => {
+  const stepCount = Math.max(1, Math.floor((lever.max - lever.min) / lever.step));
+  const stride = Math.max(1, Math.ceil(stepCount / (MAX_POINTS_PER_LEVER - 1)));
+  const values = new Set<number>([current]);
+  for (let i = 0; i <= stepCount; i += stride) {
+    values.add(lever.min + i * lever.step);
+  }
+  values.add(lever.max);
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+// Targets are scored over the whole horizon, so levers that start late or ramp up count for what they
+// deliver on average rather than for their first month
+const evaluateScenario = (scenario: SensitivityScenario, metric: GoalSeekMetric) => {
+  const { baselineData, priceValue, marketingValue, operationalFactors, forecastOptions } = scenario;
+  const forecast = generateForecastData(baselineData, priceValue, marketingValue, operationalFactors, forecastOptions);
+  const summary = calculateSummaryMetrics(baselineData, forecast, marketingValue, operationalFactors, { investmentModel: forecastOptions?.investmentModel });
+  const months = Math.max(1, forecast.length);
+  const averageProfit = forecast.reduce((sum, month) => sum + month.adjustedProfit, 0) / months;
+  const annualDifference = forecast.reduce((sum, month) => sum + month.adjustedProfit - month.originalProfit, 0) / months * 12;
+  const roi = summary.totalInvestment > 0 ? annualDifference / summary.totalInvestment * 100 : 0;
+  const value = metric === 'monthlyProfit' ? averageProfit : metric === 'annualDifference' ? annualDifference : roi;
+  return { value: Math.round(value * 10) / 10, monthlyInvestment: Math.round(summary.totalInvestment / 12) };
+};
+
+// Opening target: 10% better than the current scenario. From a zero starting point ROI aims for 10 points
+// and the money metrics for 10% of a year's profit.
+export const getDefaultGoalSeekTarget = (scenario: SensitivityScenario, metric: GoalSeekMetric) => {
+  const { value } = evaluateScenario(scenario, metric);
+  if (value !== 0) return Math.round(value + Math.abs(value) * 0.1);
+  if (metric === 'roi') return 10;
+  return Math.round(Math.abs(evaluateScenario(scenario, 'monthlyProfit').value) * 12 * 0.1);
+};
+
+const formatAmount = (value: number) => formatMoney(Math.abs(value));
+
+// Describe what each change costs or gives up, so the user sees the trade-offs
+const explainChanges = (scenario: SensitivityScenario, changes: GoalSeekChange[]) => {
+  const { baselineData } = scenario;
+  return changes.map((change) => {
+    switch (change.id) {
+      case 'price': {
+        const demandChange = calculatePriceImpact(baselineData, change.to, scenario.forecastOptions?.productPrices).demandChange * 100;
+        return `${change.to > change.from ? 'Raising' : 'Lowering'} price from ${formatMoney(change.from, { decimals: 2 })} to ${formatMoney(change.to, { decimals: 2 })} changes unit demand by ${demandChange >= 0 ? '+' : ''}${demandChange.toFixed(1)}% versus baseline.`;
+      }
+      case 'marketing':
+        return `Marketing spend moves from ${formatAmount(change.from)} to ${formatAmount(change.to)} per month; returns diminish above ${formatAmount(baselineData.marketingSpend + getAssumptions(baselineData).marketingTierSize)}.`;
+      case 'laborAutomationLevel': {
+        const impact = calculateLaborAutomationImpact(baselineData, change.to);
+        return `Automation at ${change.to}% ${impact.laborCostReduction >= 0 ? 'saves' : 'adds'} ${formatAmount(impact.laborCostReduction)}/month in labor and ${impact.automationInvestment >= 0 ? 'costs' : 'frees'} ${formatAmount(impact.automationInvestment)}/month of investment.`;
+      }
+      case 'productionEfficiency': {
+        const impact = calculateProductionEfficiencyImpact(baselineData, change.to);
+        return `Efficiency at ${change.to}% ${impact.cogsReduction >= 0 ? 'cuts' : 'raises'} COGS by ${formatAmount(impact.cogsReduction)}/month and ${impact.implementationCost >= 0 ? 'costs' : 'frees'} ${formatAmount(impact.implementationCost)}/month of implementation spend.`;
+      }
+      case 'inventoryTurnoverRate': {
+        const impact = calculateInventoryTurnoverImpact(baselineData, change.to);
+        return `Inventory turnover of ${change.to}x ${impact.netImpact >= 0 ? 'adds' : 'removes'} ${formatAmount(impact.netImpact)}/month of profit after system costs${change.to > change.from ? ' and needs tighter supply chain management' : ''}.`;
+      }
+      default:
+        return '';
+    }
+  });
+};
+
+// Coordinate search over the free levers: each pass tries every grid value of one lever at a time and
+// keeps the best move, until a pass changes nothing or the evaluation cap is reached. Until the target is
+// met the best move is the one that gets closest; after that, the one with the lowest monthly investment,
+// breaking ties by the smallest overall move away from the current sliders.
+export const solveGoalSeek = (
+  scenario: SensitivityScenario,
+  target: GoalSeekTarget,
+  levers: GoalSeekLever[],
+  onProgress?: (completed: number, total: number) => void
+): GoalSeekSolution => {
+  const grids = levers.map(lever => buildLeverGrid(lever, getLeverValue(scenario, lever.id)));
+  const gridPoints = grids.reduce((count, grid) => count + grid.length, 0);
+  const budget = Math.min(MAX_GOAL_SEEK_EVALUATIONS, gridPoints * MAX_SEARCH_PASSES + 1);
+  const progressInterval = Math.max(1, Math.round(budget / 50));
+
+  type Candidate = { scenario: SensitivityScenario; value: number; investment: number; distance: number; feasible: boolean };
+  const cache = new Map<string, Candidate>();
+  let evaluated = 0;
+
+  const getDistance = (candidate: SensitivityScenario) => levers.reduce((sum, lever) =>
+    sum + Math.abs(getLeverValue(candidate, lever.id) - getLeverValue(scenario, lever.id)) / (lever.max - lever.min || 1), 0);
+
+  const evaluate = (candidate: SensitivityScenario): Candidate | null => {
+    const key = levers.map(lever => getLeverValue(candidate, lever.id)).join('|');
+    const cached = cache.get(key);
+    if (cached) return cached;
+    if (evaluated >= budget) return null;
+
+    const { value, monthlyInvestment } = evaluateScenario(candidate, target.metric);
+    evaluated++;
+    if (onProgress && evaluated % progressInterval === 0) onProgress(evaluated, budget);
+
+    const result = { scenario: candidate, value, investment: monthlyInvestment, distance: getDistance(candidate), feasible: value >= target.value };
+    cache.set(key, result);
+    return result;
+  };
+
+  const isBetter = (next: Candidate, best: Candidate) => {
+    if (next.feasible !== best.feasible) return next.feasible;
+    if (!next.feasible) return next.value > best.value;
+    return next.investment < best.investment || (next.investment === best.investment && next.distance < best.distance);
+  };
+
+  let best = evaluate(scenario);
+  for (let pass = 0; pass < MAX_SEARCH_PASSES && evaluated < budget; pass++) {
+    let improved = false;
+    levers.forEach((lever, leverIndex) => {
+      grids[leverIndex].forEach(value => {
+        const candidate = evaluate(setLeverValue(best.scenario, lever.id, value));
+        if (candidate && isBetter(candidate, best)) {
+          best = candidate;
+          improved = true;
+        }
+      });
+    });
+    if (!improved) break;
+  }
+  onProgress?.(evaluated, evaluated);
+
+  const changes: GoalSeekChange[] = levers
+    .map(lever => ({
+      id: lever.id,
+      label: GOAL_SEEK_LEVER_LABELS[lever.id],
+      from: getLeverValue(scenario, lever.id),
+      to: getLeverValue(best.scenario, lever.id)
+    }))
+    .filter(change => change.from !== change.to);
+
+  return {
+    feasible: best.feasible,
+    scenario: best.scenario,
+    achieved: best.value,
+    monthlyInvestment: best.investment,
+    changes,
+    explanation: explainChanges(best.scenario, changes),
+    evaluated
+  };
+};
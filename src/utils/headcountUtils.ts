@@ -0,0 +1,163 @@
+// Headcount model: roles, FTEs and loaded costs, and which roles each automation initiative touches
+
+import type { PLData } from './simulationUtils';
+
+export type WorkforceDecision = 'reduce' | 'redeploy';
+
+export interface LaborRole {
+  id: string;
+  name: string;
+  fte: number;
+  monthlyCostPerFte: number; // loaded: salary, benefits and payroll taxes
+  automatableShare: number; // share of the role's hours automation can take over (0-1)
+  decision: WorkforceDecision; // reduce headcount, or move freed hours to other work
+}
+
+export interface AutomationInitiative {
+  id: string;
+  name: string;
+  roleIds: string[];
+  enabled: boolean;
+}
+
+export interface HeadcountModel {
+  roles: LaborRole[];
+  initiatives: AutomationInitiative[];
+}
+
+export interface RoleAutomationImpact {
+  id: string;
+  name: string;
+  monthlyCost: number;
+  freedFte: number;
+  reducedFte: number;
+  redeployedFte: number;
+  savings: number;
+}
+
+interface HeadcountEntry {
+  id?: string;
+  name?: string;
+  role?: string;
+  fte?: number;
+  monthlyCostPerFte?: number;
+  loaded_cost?: number;
+  automatableShare?: number;
+  automatable_share?: number;
+  decision?: WorkforceDecision;
+}
+
+export const MAX_ROLES = 8;
+
+// Average loaded monthly cost per FTE when the P&L only gives a labor total
+export const DEFAULT_LOADED_COST_PER_FTE = 5000;
+
+// Redeployed hours avoid backfill hiring and overtime, recovering about half their cost
+export const REDEPLOYMENT_SAVINGS_SHARE = 0.5;
+
+// Typical labor mix for a small goods business; shares of the labor bill sum to 1
+const ROLE_TEMPLATES: Array<Omit<LaborRole, 'fte' | 'monthlyCostPerFte'> & { laborShare: number }> = [
+  { id: 'operations', name: 'Production & Operations', laborShare: 0.5, automatableShare: 0.5, decision: 'reduce' },
+  { id: 'support', name: 'Customer Support', laborShare: 0.15, automatableShare: 0.6, decision: 'redeploy' },
+  { id: 'sales', name: 'Sales', laborShare: 0.15, automatableShare: 0.2, decision: 'redeploy' },
+  { id: 'admin', name: 'Admin & Finance', laborShare: 0.2, automatableShare: 0.5, decision: 'reduce' }
+];
+
+const DEFAULT_INITIATIVES: AutomationInitiative[] = [
+  { id: 'production', name: 'Production line automation', roleIds: ['operations'], enabled: true },
+  { id: 'service', name: 'Customer service tooling', roleIds: ['support'], enabled: true },
+  { id: 'backOffice', name: 'Back-office workflow automation', roleIds: ['admin'], enabled: true }
+];
+
+// Split the baseline labor bill across the template roles at the default loaded cost
+export const createDefaultHeadcount = (baselineData: PLData): HeadcountModel => ({
+  roles: ROLE_TEMPLATES.map(({ laborShare, ...role }) => ({
+    ...role,
+    fte: Math.round((baselineData.monthlyLabor * laborShare / DEFAULT_LOADED_COST_PER_FTE) * 10) / 10,
+    monthlyCostPerFte: DEFAULT_LOADED_COST_PER_FTE
+  })),
+  initiatives: DEFAULT_INITIATIVES.map(initiative => ({ ...initiative, roleIds: [...initiative.roleIds] }))
+});
+
+// New role seeded at the current average loaded cost
+export const createLaborRole = (existing: LaborRole[]): LaborRole => {
+  const totals = getHeadcountTotals({ roles: existing, initiatives: [] });
+  return {
+    id: `role-${Date.now()}`,
+    name: `Role ${existing.length + 1}`,
+    fte: 1,
+    monthlyCostPerFte: totals.fte > 0 ? Math.round(totals.monthlyCost / totals.fte) : DEFAULT_LOADED_COST_PER_FTE,
+    automatableShare: 0.3,
+    decision: 'reduce'
+  };
+};
+
+export const getHeadcountTotals = (model: HeadcountModel) => ({
+  fte: model.roles.reduce((sum, role) => sum + role.fte, 0),
+  monthlyCost: model.roles.reduce((sum, role) => sum + role.fte * role.monthlyCostPerFte, 0)
+});
+
+// Replace the aggregate labor cost with the headcount total
+export const applyHeadcount = (baselineData: PLData, model: HeadcountModel): PLData => {
+  const { monthlyCost } = getHeadcountTotals(model);
+  return {
+    ...baselineData,
+    monthlyLabor: monthlyCost,
+    monthlyProfit: baselineData.monthlyProfit - (monthlyCost - baselineData.monthlyLabor),
+    headcount: model
+  };
+};
+
+// Per-role savings when automationShare of each covered role's automatable hours is automated.
+// Role costs are rescaled to monthlyLabor so labor sensitivity and sampling still flow through.
+export const calculateRoleAutomationImpacts = (
+  model: HeadcountModel,
+  monthlyLabor: number,
+  automationShare: number
+): RoleAutomationImpact[] => {
+  const { monthlyCost: headcountCost } = getHeadcountTotals(model);
+  const costScale = headcountCost > 0 ? monthlyLabor / headcountCost : 0;
+  const coveredRoles = new Set(
+    model.initiatives.filter(initiative => initiative.enabled).flatMap(initiative => initiative.roleIds)
+  );
+
+  return model.roles.map(role => {
+    const monthlyCost = role.fte * role.monthlyCostPerFte * costScale;
+    const automatedShare = coveredRoles.has(role.id) ? Math.min(1, role.automatableShare * automationShare) : 0;
+    const freedFte = role.fte * automatedShare;
+    const isReduced = role.decision === 'reduce';
+
+    return {
+      id: role.id,
+      name: role.name,
+      monthlyCost,
+      freedFte,
+      reducedFte: isReduced ? freedFte : 0,
+      redeployedFte: isReduced ? 0 : freedFte,
+      savings: monthlyCost * automatedShare * (isReduced ? 1 : REDEPLOYMENT_SAVINGS_SHARE)
+    };
+  });
+};
+
+// Read a roster from uploaded data (headcount or roles); initiatives cover every role
+export const extractHeadcount = (data: { headcount?: unknown; roles?: unknown } | null | undefined): HeadcountModel | null => {
+  const source = data?.headcount || data?.roles;
+  if (!Array.isArray(source)) return null;
+
+  const roles = (source as HeadcountEntry[])
+    .map((entry, index) => ({
+      id: entry.id || `role-${index + 1}`,
+      name: entry.name || entry.role || `Role ${index + 1}`,
+      fte: Number(entry.fte),
+      monthlyCostPerFte: Number(entry.monthlyCostPerFte ?? entry.loaded_cost),
+      automatableShare: Math.min(1, Math.max(0, Number(entry.automatableShare ?? entry.automatable_share ?? 0.3))),
+      decision: entry.decision === 'redeploy' ? 'redeploy' as const : 'reduce' as const
+    }))
+    .filter(role => role.fte >= 0 && role.monthlyCostPerFte > 0);
+
+  if (roles.length === 0) return null;
+  return {
+    roles,
+    initiatives: [{ id: 'automation', name: 'Process automation', roleIds: roles.map(role => role.id), enabled: true }]
+  };
+};
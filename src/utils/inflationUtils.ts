@@ -0,0 +1,57 @@
+// Inflation: separate annual rates for COGS inputs, wages, overhead and prices, with cost pass-through to price
+
+export interface InflationAssumptions {
+  cogs: number; // annual rate on materials and other cost-of-goods inputs
+  wages: number; // annual wage growth; also grows the labor automation saves
+  overhead: number; // annual rate on rent, utilities and other overhead
+  price: number; // general annual price increase, independent of costs
+  passThrough: number; // share of each month's cost increase recovered through price (0-1)
+}
+
+export interface InflationFactors {
+  cogs: number;
+  wages: number;
+  overhead: number;
+  price: number;
+}
+
+export const NO_INFLATION: InflationAssumptions = {
+  cogs: 0,
+  wages: 0,
+  overhead: 0,
+  price: 0,
+  passThrough: 0
+};
+
+// Starting assumptions for multi-year cases: wages outpace goods and prices
+export const DEFAULT_INFLATION_ASSUMPTIONS: InflationAssumptions = {
+  cogs: 0.025,
+  wages: 0.035,
+  overhead: 0.025,
+  price: 0.02,
+  passThrough: 0
+};
+
+// Compounded multipliers for a forecast month; costShock moves every cost rate together (risk sampling)
+export const getInflationFactors = (
+  assumptions: InflationAssumptions = NO_INFLATION,
+  monthIndex: number,
+  costShock = 0
+): InflationFactors => {
+  const years = monthIndex / 12;
+  return {
+    cogs: Math.pow(1 + assumptions.cogs + costShock, years),
+    wages: Math.pow(1 + assumptions.wages + costShock, years),
+    overhead: Math.pow(1 + assumptions.overhead + costShock, years),
+    price: Math.pow(1 + assumptions.price, years)
+  };
+};
+
+// Revenue multiplier: general price inflation plus the passed-through share of the month's cost increase.
+// Competitors face the same input costs, so passed-through increases are assumed not to move volume.
+export const calculatePriceFactor = (
+  assumptions: InflationAssumptions = NO_INFLATION,
+  factors: InflationFactors,
+  revenue: number,
+  costIncrease: number
+) => factors.price + (revenue > 0 ? (assumptions.passThrough * costIncrease) / revenue : 0);
@@ -0,0 +1,107 @@
+// Capital investment model: up-front capex, depreciation and loan/lease financing
+
+export type InvestmentMode = 'monthlyFee' | 'capex';
+export type DepreciationMethod = 'straightLine' | 'decliningBalance';
+export type FinancingType = 'cash' | 'loan' | 'lease';
+
+export interface InvestmentModel {
+  mode: InvestmentMode; // monthlyFee keeps the flat per-tier fee; capex treats projects as assets
+  upfrontCostMultiple: number; // up-front capex = equivalent monthly fee × this many months
+  usefulLifeYears: number;
+  depreciationMethod: DepreciationMethod;
+  decliningBalanceFactor: number; // 2 = double-declining balance
+  financing: FinancingType;
+  interestRate: number; // annual rate for loan or lease
+  termMonths: number; // loan or lease term
+  downPaymentPercent: number; // loan only, paid in month one
+}
+
+export interface InvestmentScheduleEntry {
+  month: number; // 1-based forecast month
+  depreciation: number;
+  interest: number;
+  leasePayment: number;
+  principal: number;
+  expense: number; // P&L charge: depreciation + interest + lease payment
+  cashOutflow: number; // cash paid: purchase, down payment, loan or lease payment
+  bookValue: number;
+  loanBalance: number;
+}
+
+export const DEFAULT_INVESTMENT_MODEL: InvestmentModel = {
+  mode: 'monthlyFee',
+  upfrontCostMultiple: 36,
+  usefulLifeYears: 5,
+  depreciationMethod: 'straightLine',
+  decliningBalanceFactor: 2,
+  financing: 'cash',
+  interestRate: 0.07,
+  termMonths: 48,
+  downPaymentPercent: 0.2
+};
+
+// Level monthly payment that amortizes a principal over a term
+export const calculateAmortizedPayment = (principal: number, annualRate: number, termMonths: number) => {
+  if (principal <= 0 || termMonths <= 0) return 0;
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate === 0) return principal / termMonths;
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+};
+
+// Month-by-month depreciation, financing and cash schedule for an up-front capex amount
+export const buildInvestmentSchedule = (capex: number, model: InvestmentModel, months: number): InvestmentScheduleEntry[] => {
+  const lifeMonths = Math.max(1, Math.round(model.usefulLifeYears * 12));
+  const termMonths = Math.max(1, Math.round(model.termMonths));
+  const monthlyRate = model.interestRate / 12;
+  const isLease = model.financing === 'lease';
+  const loanPrincipal = model.financing === 'loan' ? capex * (1 - model.downPaymentPercent) : 0;
+  const loanPayment = calculateAmortizedPayment(loanPrincipal, model.interestRate, termMonths);
+  const leasePayment = isLease ? calculateAmortizedPayment(capex, model.interestRate, termMonths) : 0;
+
+  // Leased assets stay off the books, so only owned assets depreciate
+  let bookValue = isLease ? 0 : capex;
+  let loanBalance = loanPrincipal;
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = index + 1;
+    const remainingLife = lifeMonths - index;
+
+    let depreciation = 0;
+    if (bookValue > 0 && remainingLife > 0) {
+      const straightLine = bookValue / remainingLife;
+      depreciation = model.depreciationMethod === 'decliningBalance'
+        ? Math.max(bookValue * (model.decliningBalanceFactor / lifeMonths), straightLine) // switch to straight-line when it is larger
+        : capex / lifeMonths;
+      depreciation = Math.min(depreciation, bookValue);
+      bookValue -= depreciation;
+    }
+
+    let interest = 0;
+    let principal = 0;
+    if (loanBalance > 0 && month <= termMonths) {
+      interest = loanBalance * monthlyRate;
+      principal = Math.min(loanPayment - interest, loanBalance);
+      loanBalance -= principal;
+    }
+
+    const monthLeasePayment = isLease && month <= termMonths ? leasePayment : 0;
+
+    let cashOutflow = interest + principal + monthLeasePayment;
+    if (month === 1) {
+      if (model.financing === 'cash') cashOutflow += capex;
+      if (model.financing === 'loan') cashOutflow += capex * model.downPaymentPercent;
+    }
+
+    return {
+      month,
+      depreciation,
+      interest,
+      leasePayment: monthLeasePayment,
+      principal,
+      expense: depreciation + interest + monthLeasePayment,
+      cashOutflow,
+      bookValue,
+      loanBalance
+    };
+  });
+};
@@ -0,0 +1,143 @@
+// Marketing response over time: channel mix with saturating curves, adstock carry-over and scheduled spend
+
+export interface MarketingChannel {
+  id: string;
+  name: string;
+  baselineSpend: number; // monthly spend already reflected in baseline revenue
+  spend: number; // monthly spend in the scenario
+  maxRevenueLift: number; // revenue boost at full saturation, e.g. 0.25 = +25%
+  halfSaturationSpend: number; // monthly spend that reaches half of the maximum lift
+  lagMonths: number; // months before a spend change shows up in revenue
+}
+
+export interface ChannelAllocation {
+  channels: MarketingChannel[];
+  allocatedBudget: number;
+  unallocatedBudget: number; // left unspent when further spend would not pay back
+  monthlyRevenueGain: number;
+}
+
+// Default channel characteristics and their share of the current marketing budget
+const CHANNEL_TEMPLATES: Array<Omit<MarketingChannel, 'baselineSpend' | 'spend'> & { budgetShare: number }> = [
+  { id: 'paidSearch', name: 'Paid Search', maxRevenueLift: 0.25, halfSaturationSpend: 8000, lagMonths: 0, budgetShare: 0.4 },
+  { id: 'social', name: 'Social Media', maxRevenueLift: 0.2, halfSaturationSpend: 10000, lagMonths: 1, budgetShare: 0.25 },
+  { id: 'email', name: 'Email', maxRevenueLift: 0.08, halfSaturationSpend: 1500, lagMonths: 0, budgetShare: 0.1 },
+  { id: 'tradeShows', name: 'Trade Shows', maxRevenueLift: 0.15, halfSaturationSpend: 15000, lagMonths: 3, budgetShare: 0.15 },
+  { id: 'display', name: 'Display & Video', maxRevenueLift: 0.1, halfSaturationSpend: 12000, lagMonths: 1, budgetShare: 0.1 }
+];
+
+export const createDefaultChannels = (baselineMarketingSpend: number): MarketingChannel[] =>
+  CHANNEL_TEMPLATES.map(({ budgetShare, ...template }) => {
+    const baselineSpend = Math.round(baselineMarketingSpend * budgetShare);
+    return { ...template, baselineSpend, spend: baselineSpend };
+  });
+
+// Saturating response: lift approaches the channel maximum as spend grows
+export const calculateChannelLift = (channel: MarketingChannel, spend: number) =>
+  spend > 0 ? channel.maxRevenueLift * (spend / (spend + channel.halfSaturationSpend)) : 0;
+
+export const getChannelTotal = (channels: MarketingChannel[]) => channels.reduce((sum, channel) => sum + channel.spend, 0);
+
+// Keep the channel mix but resize it to a total budget
+export const scaleChannelsToBudget = (channels: MarketingChannel[], budget: number): MarketingChannel[] => {
+  const total = getChannelTotal(channels);
+  if (total <= 0) {
+    return channels.map(channel => ({ ...channel, spend: channels.length > 0 ? budget / channels.length : 0 }));
+  }
+  return channels.map(channel => ({ ...channel, spend: channel.spend * (budget / total) }));
+};
+
+// Revenue boost versus baseline in a forecast month; changes only land after each channel's lag
+export const calculateChannelMixBoost = (channels: MarketingChannel[], monthIndex: number) =>
+  channels.reduce((boost, channel) => {
+    if (monthIndex < channel.lagMonths) return boost;
+    return boost + calculateChannelLift(channel, channel.spend) - calculateChannelLift(channel, channel.baselineSpend);
+  }, 0);
+
+// Greedy marginal allocation: optimal for concave response curves. Each increment goes to the channel with
+// the best revenue gain over the horizon, and allocation stops once an increment no longer pays for itself.
+export const optimizeChannelAllocation = (
+  channels: MarketingChannel[],
+  budget: number,
+  monthlyRevenue: number,
+  horizonMonths = 12
+): ChannelAllocation => {
+  const steps = 200;
+  const increment = budget / steps;
+  const spends = channels.map(() => 0);
+  // Lagged channels earn for fewer months of the horizon
+  const activeShare = channels.map(channel => Math.max(0, horizonMonths - channel.lagMonths) / horizonMonths);
+  let allocated = 0;
+
+  for (let step = 0; step < steps && increment > 0; step++) {
+    let bestIndex = -1;
+    let bestGain = 0;
+    channels.forEach((channel, index) => {
+      const gain = (calculateChannelLift(channel, spends[index] + increment) - calculateChannelLift(channel, spends[index])) * monthlyRevenue * activeShare[index];
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex < 0 || bestGain <= increment) break;
+    spends[bestIndex] += increment;
+    allocated += increment;
+  }
+
+  const optimized = channels.map((channel, index) => ({ ...channel, spend: Math.round(spends[index]) }));
+  const monthlyRevenueGain = optimized.reduce(
+    (sum, channel) => sum + (calculateChannelLift(channel, channel.spend) - calculateChannelLift(channel, channel.baselineSpend)) * monthlyRevenue,
+    0
+  );
+
+  return {
+    channels: optimized,
+    allocatedBudget: Math.round(allocated),
+    unallocatedBudget: Math.round(budget - allocated),
+    monthlyRevenueGain: Math.round(monthlyRevenueGain)
+  };
+};
+
+export interface MarketingAdstock {
+  lagMonths: number; // months before spend starts to move revenue
+  halfLifeMonths: number; // months for a campaign's effect to decay by half; 0 = no carry-over
+}
+
+export interface MarketingSpendChange {
+  month: number; // 1-based forecast month the new spend starts
+  spend: number;
+}
+
+export const DEFAULT_MARKETING_ADSTOCK: MarketingAdstock = {
+  lagMonths: 0,
+  halfLifeMonths: 1
+};
+
+// Monthly spend: baseline until the start month, then the scenario spend; each scheduled change holds until the next
+export const buildMarketingSpendPath = (
+  baselineSpend: number,
+  spend: number,
+  months: number,
+  startMonth = 1,
+  schedule: MarketingSpendChange[] = []
+) => {
+  const changes = [{ month: startMonth, spend }, ...schedule].sort((a, b) => a.month - b.month);
+  return Array.from({ length: months }, (_, index) => {
+    const current = changes.filter(change => change.month <= index + 1).pop();
+    return current ? current.spend : baselineSpend;
+  });
+};
+
+// Adstock: effective spend builds up and decays geometrically, delayed by the lag.
+// Starts from the baseline steady state and converges to any sustained spend level.
+export const applyAdstock = (spendPath: number[], baselineSpend: number, adstock: MarketingAdstock) => {
+  const retention = adstock.halfLifeMonths > 0 ? Math.pow(0.5, 1 / adstock.halfLifeMonths) : 0;
+  const lag = Math.max(0, Math.round(adstock.lagMonths));
+  let carried = baselineSpend;
+
+  return spendPath.map((_, index) => {
+    const laggedSpend = index - lag >= 0 ? spendPath[index - lag] : baselineSpend;
+    carried = (1 - retention) * laggedSpend + retention * carried;
+    return carried;
+  });
+};
@@ -0,0 +1,160 @@
+// Monte Carlo risk analysis on top of the deterministic forecast engine
+
+import {
+  generateForecastData,
+  DEFAULT_DEMAND_MODEL,
+  type PLData,
+  type ForecastData,
+  type OperationalFactors,
+  type ForecastOptions,
+  type DemandModel
+} from './simulationUtils';
+
+export type Distribution =
+  | { type: 'fixed'; value: number }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'triangular'; min: number; mode: number; max: number };
+
+export interface UncertainDrivers {
+  elasticityMultiplier: Distribution; // scales every elasticity parameter of the demand model
+  marketingResponseMultiplier: Distribution; // scales the revenue boost from marketing
+  seasonalityShock: Distribution; // sampled independently for each month
+  annualCostInflation: Distribution; // deviation added to the COGS, wage and overhead inflation assumptions
+}
+
+export interface MonteCarloConfig {
+  iterations: number;
+  seed: number;
+  drivers: UncertainDrivers;
+}
+
+export const DEFAULT_UNCERTAIN_DRIVERS: UncertainDrivers = {
+  elasticityMultiplier: { type: 'triangular', min: 0.7, mode: 1, max: 1.3 },
+  marketingResponseMultiplier: { type: 'triangular', min: 0.5, mode: 1, max: 1.2 },
+  seasonalityShock: { type: 'normal', mean: 1, stdDev: 0.05 },
+  annualCostInflation: { type: 'normal', mean: 0, stdDev: 0.015 }
+};
+
+export const DEFAULT_MONTE_CARLO_CONFIG: MonteCarloConfig = {
+  iterations: 500,
+  seed: 42,
+  drivers: DEFAULT_UNCERTAIN_DRIVERS
+};
+
+// Seedable pseudo-random generator (mulberry32) so runs are reproducible
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Draw one value from a distribution
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.type) {
+    case 'fixed':
+      return distribution.value;
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'normal': {
+      // Box-Muller transform
+      const u1 = Math.max(random(), Number.EPSILON);
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return distribution.mean + z * distribution.stdDev;
+    }
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      const u = random();
+      const split = (mode - min) / (max - min || 1);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    default:
+      return 0;
+  }
+};
+
+// Linear-interpolated percentile of an ascending sorted array (p in 0-1)
+export const percentile = (sortedValues: number[], p: number) => {
+  if (sortedValues.length === 0) return 0;
+  const position = (sortedValues.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+};
+
+const scaleDemandModel = (model: DemandModel, multiplier: number): DemandModel => ({
+  ...model,
+  elasticity: model.elasticity * multiplier,
+  increaseElasticity: model.increaseElasticity !== undefined ? model.increaseElasticity * multiplier : undefined,
+  decreaseElasticity: model.decreaseElasticity !== undefined ? model.decreaseElasticity * multiplier : undefined
+});
+
+// How often a run reports progress, in iterations
+const PROGRESS_INTERVAL = 25;
+
+// Run the forecast many times with sampled drivers and return P10/P50/P90 bands per month
+export const runMonteCarloForecast = (
+  baselineData: PLData,
+  priceValue: number,
+  marketingValue: number,
+  operationalFactors?: OperationalFactors,
+  config: MonteCarloConfig = DEFAULT_MONTE_CARLO_CONFIG,
+  forecastOptions: ForecastOptions = {},
+  onProgress?: (completed: number, total: number) => void
+): ForecastData[] => {
+  const deterministic = generateForecastData(baselineData, priceValue, marketingValue, operationalFactors, forecastOptions);
+  const random = createRandom(config.seed);
+  const iterations = Math.max(1, Math.round(config.iterations));
+  const { drivers } = config;
+
+  const originalSamples: number[][] = deterministic.map(() => []);
+  const adjustedSamples: number[][] = deterministic.map(() => []);
+
+  for (let i = 0; i < iterations; i++) {
+    const elasticityMultiplier = Math.max(0, sampleDistribution(drivers.elasticityMultiplier, random));
+    const sampledData: PLData = {
+      ...baselineData,
+      demandModel: scaleDemandModel(baselineData.demandModel || DEFAULT_DEMAND_MODEL, elasticityMultiplier),
+      productLines: baselineData.productLines?.map(line => ({ ...line, elasticity: line.elasticity * elasticityMultiplier }))
+    };
+
+    const forecast = generateForecastData(sampledData, priceValue, marketingValue, operationalFactors, {
+      ...forecastOptions,
+      marketingResponseMultiplier: Math.max(0, sampleDistribution(drivers.marketingResponseMultiplier, random)),
+      seasonalityShocks: deterministic.map(() => Math.max(0, sampleDistribution(drivers.seasonalityShock, random))),
+      annualCostInflation: sampleDistribution(drivers.annualCostInflation, random)
+    });
+
+    forecast.forEach((month, index) => {
+      originalSamples[index].push(month.originalProfit);
+      adjustedSamples[index].push(month.adjustedProfit);
+    });
+    if (onProgress && ((i + 1) % PROGRESS_INTERVAL === 0 || i + 1 === iterations)) onProgress(i + 1, iterations);
+  }
+
+  return deterministic.map((month, index) => {
+    const original = originalSamples[index].sort((a, b) => a - b);
+    const adjusted = adjustedSamples[index].sort((a, b) => a - b);
+    const adjustedP10 = Math.round(percentile(adjusted, 0.1));
+    const adjustedP90 = Math.round(percentile(adjusted, 0.9));
+
+    return {
+      ...month,
+      originalLowerBound: Math.round(percentile(original, 0.1)),
+      originalUpperBound: Math.round(percentile(original, 0.9)),
+      adjustedLowerBound: adjustedP10,
+      adjustedUpperBound: adjustedP90,
+      adjustedP10,
+      adjustedP50: Math.round(percentile(adjusted, 0.5)),
+      adjustedP90
+    };
+  });
+};
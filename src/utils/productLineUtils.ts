@@ -0,0 +1,82 @@
+// Product-line P&L: per-line price, units, unit COGS and elasticity rolled up into the baseline
+
+import type { PLData, ProductLine } from './simulationUtils';
+
+interface ProductLineEntry {
+  id?: string;
+  name?: string;
+  price?: number;
+  units?: number;
+  unitsSold?: number;
+  unit_cogs?: number;
+  unitCOGS?: number;
+  elasticity?: number;
+}
+
+export const MAX_PRODUCT_LINES = 6;
+
+// Single line matching the aggregate P&L at baseline price, with COGS carried per unit
+export const createDefaultProductLines = (baselineData: PLData): ProductLine[] => [{
+  id: 'line-1',
+  name: 'Core Product',
+  price: baselineData.averagePrice,
+  unitsSold: baselineData.unitsSold,
+  unitCOGS: baselineData.unitsSold > 0 ? baselineData.monthlyCOGS / baselineData.unitsSold : 0,
+  elasticity: baselineData.demandModel?.elasticity ?? 1.2
+}];
+
+// New line seeded from the current mix averages
+export const createProductLine = (existing: ProductLine[]): ProductLine => {
+  const template = existing[0];
+  const nextIndex = existing.length + 1;
+  return {
+    id: `line-${Date.now()}`,
+    name: `Product ${nextIndex}`,
+    price: template ? template.price : 50,
+    unitsSold: template ? Math.round(template.unitsSold / 2) : 500,
+    unitCOGS: template ? template.unitCOGS : 30,
+    elasticity: template ? template.elasticity : 1.2
+  };
+};
+
+export const getProductLineTotals = (lines: ProductLine[]) => {
+  const revenue = lines.reduce((sum, line) => sum + line.price * line.unitsSold, 0);
+  const cogs = lines.reduce((sum, line) => sum + line.unitCOGS * line.unitsSold, 0);
+  const units = lines.reduce((sum, line) => sum + line.unitsSold, 0);
+  return { revenue, cogs, units, averagePrice: units > 0 ? revenue / units : 0 };
+};
+
+// Replace the aggregate revenue, COGS, price and units with the product-line totals
+export const applyProductLines = (baselineData: PLData, lines: ProductLine[]): PLData => {
+  if (lines.length === 0) return { ...baselineData, productLines: undefined };
+
+  const totals = getProductLineTotals(lines);
+  const grossProfitChange = (totals.revenue - totals.cogs) - (baselineData.monthlyRevenue - baselineData.monthlyCOGS);
+
+  return {
+    ...baselineData,
+    monthlyRevenue: totals.revenue,
+    monthlyCOGS: totals.cogs,
+    monthlyProfit: baselineData.monthlyProfit + grossProfitChange,
+    averagePrice: totals.averagePrice,
+    unitsSold: totals.units,
+    productLines: lines
+  };
+};
+
+// Read product lines from uploaded data (product_lines or productLines)
+export const extractProductLines = (data: { product_lines?: unknown; productLines?: unknown } | null | undefined): ProductLine[] => {
+  const source = data?.product_lines || data?.productLines;
+  if (!Array.isArray(source)) return [];
+
+  return (source as ProductLineEntry[])
+    .map((entry, index) => ({
+      id: entry.id || `line-${index + 1}`,
+      name: entry.name || `Product ${index + 1}`,
+      price: Number(entry.price),
+      unitsSold: Number(entry.unitsSold ?? entry.units),
+      unitCOGS: Number(entry.unitCOGS ?? entry.unit_cogs),
+      elasticity: Number(entry.elasticity ?? 1.2)
+    }))
+    .filter(line => line.price > 0 && line.unitsSold >= 0 && Number.isFinite(line.unitCOGS) && Number.isFinite(line.elasticity));
+};
@@ -0,0 +1,59 @@
+// Response curves: how far a lever moves above its baseline turns into operational impact
+
+import type { PLData } from './simulationUtils';
+import { getAssumptions, type SimulationAssumptions } from './assumptionsUtils';
+
+export type ResponseCurveType = 'linear' | 'diminishing' | 'sCurve' | 'tiered';
+
+export const RESPONSE_CURVE_OPTIONS: Array<{ type: ResponseCurveType; label: string; description: string }> = [
+  { type: 'linear', label: 'Linear', description: 'Every point of improvement is worth the same.' },
+  { type: 'diminishing', label: 'Diminishing returns', description: 'Early gains are the easiest; each further point is worth less.' },
+  { type: 'sCurve', label: 'S-curve adoption', description: 'Slow start, fast middle, then saturation as the change beds in.' },
+  { type: 'tiered', label: 'Tiered (legacy)', description: 'Impact steps up only at each full 10-point tier, as in earlier versions.' }
+];
+
+export const DEFAULT_RESPONSE_CURVE: ResponseCurveType = 'linear';
+
+type CurveAssumptions = Pick<SimulationAssumptions, 'diminishingReturnsScale' | 'adoptionMidpoint' | 'adoptionSteepness'>;
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+
+// Tiers of benefit for a move of `tiers` (fractional) tiers from baseline. Every continuous curve starts at
+// zero; diminishing returns has the linear slope at the start, the S-curve meets the line at twice its midpoint.
+export const getBenefitTiers = (tiers: number, curve: ResponseCurveType, assumptions: CurveAssumptions) => {
+  if (curve === 'tiered') return Math.floor(tiers);
+  const magnitude = Math.abs(tiers);
+
+  switch (curve) {
+    case 'diminishing': {
+      const scale = assumptions.diminishingReturnsScale;
+      return Math.sign(tiers) * scale * (1 - Math.exp(-magnitude / scale));
+    }
+    case 'sCurve': {
+      const midpoint = assumptions.adoptionMidpoint;
+      const steepness = assumptions.adoptionSteepness;
+      const start = logistic(-steepness * midpoint);
+      const span = logistic(steepness * midpoint) - start;
+      return Math.sign(tiers) * 2 * midpoint * (logistic(steepness * (magnitude - midpoint)) - start) / span;
+    }
+    default:
+      return tiers;
+  }
+};
+
+// Tiers of cost: fees scale with the move itself and only step under the tiered curve
+export const getCostTiers = (tiers: number, curve: ResponseCurveType) => (curve === 'tiered' ? Math.floor(tiers) : tiers);
+
+export const getResponseCurve = (baselineData: PLData) => baselineData.responseCurve || DEFAULT_RESPONSE_CURVE;
+
+// The chosen curve rides on the P&L like the assumptions it reads its shape from
+export const applyResponseCurve = (baselineData: PLData, curve: ResponseCurveType): PLData => ({ ...baselineData, responseCurve: curve });
+
+// Benefit and cost tiers for a lever move on a P&L, using its curve and curve assumptions
+export const getLeverTiers = (baselineData: PLData, tiers: number) => {
+  const curve = getResponseCurve(baselineData);
+  return {
+    benefitTiers: getBenefitTiers(tiers, curve, getAssumptions(baselineData)),
+    costTiers: getCostTiers(tiers, curve)
+  };
+};
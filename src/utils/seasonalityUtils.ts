@@ -0,0 +1,165 @@
+// Named seasonality profiles and profile derivation from revenue history
+
+import { DEFAULT_SEASONAL_FACTORS, MONTH_LABELS } from './simulationUtils';
+
+export interface SeasonalityProfile {
+  id: string;
+  name: string;
+  description: string;
+  factors: number[]; // 12 calendar-month multipliers, January first, averaging roughly 1.0
+}
+
+export interface RevenueHistoryPoint {
+  month: number; // 0 = January
+  revenue: number;
+}
+
+export const SEASONALITY_PROFILES: SeasonalityProfile[] = [
+  {
+    id: 'general',
+    name: 'General (Summer Peak)',
+    description: 'Mild summer peak with a year-end slowdown.',
+    factors: DEFAULT_SEASONAL_FACTORS
+  },
+  {
+    id: 'retailHoliday',
+    name: 'Retail Holiday Peak',
+    description: 'Quiet first quarter, back-to-school lift and a strong November-December peak.',
+    factors: [0.82, 0.80, 0.90, 0.93, 0.96, 0.95, 0.94, 1.00, 0.96, 1.02, 1.28, 1.44]
+  },
+  {
+    id: 'manufacturingSummerDip',
+    name: 'Manufacturing Summer Dip',
+    description: 'Steady output with plant shutdowns in July-August and a December slowdown.',
+    factors: [1.00, 1.04, 1.08, 1.05, 1.04, 1.02, 0.86, 0.84, 1.04, 1.08, 1.06, 0.89]
+  },
+  {
+    id: 'flatSaas',
+    name: 'Flat (SaaS / Services)',
+    description: 'Recurring revenue with no meaningful seasonality.',
+    factors: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]
+  },
+  {
+    id: 'constructionSummer',
+    name: 'Construction Season',
+    description: 'Weather-driven activity peaking from late spring to early autumn.',
+    factors: [0.70, 0.72, 0.88, 1.02, 1.14, 1.20, 1.22, 1.20, 1.12, 1.02, 0.92, 0.86]
+  },
+  {
+    id: 'foodBeverageSummer',
+    name: 'Food & Beverage Summer',
+    description: 'Summer demand peak with a smaller holiday bump.',
+    factors: [0.88, 0.86, 0.94, 0.98, 1.06, 1.14, 1.18, 1.14, 1.00, 0.94, 0.90, 0.98]
+  },
+  {
+    id: 'logisticsQ4',
+    name: 'Logistics Q4 Peak',
+    description: 'Volumes build through autumn ahead of the holiday shipping peak.',
+    factors: [0.90, 0.88, 0.95, 0.96, 0.98, 0.97, 0.96, 0.99, 1.02, 1.06, 1.17, 1.16]
+  },
+  {
+    id: 'healthcareWinter',
+    name: 'Healthcare Winter Peak',
+    description: 'Higher demand in winter months and a quieter summer.',
+    factors: [1.08, 1.06, 1.03, 0.99, 0.96, 0.94, 0.92, 0.93, 0.98, 1.02, 1.03, 1.06]
+  }
+];
+
+// Industries from company setup mapped to their closest seasonality profile
+export const INDUSTRY_SEASONALITY: Record<string, string> = {
+  'Manufacturing': 'manufacturingSummerDip',
+  'Retail': 'retailHoliday',
+  'Technology': 'flatSaas',
+  'Healthcare': 'healthcareWinter',
+  'Financial Services': 'flatSaas',
+  'Automotive': 'manufacturingSummerDip',
+  'Food & Beverage': 'foodBeverageSummer',
+  'Logistics & Transportation': 'logisticsQ4',
+  'Construction': 'constructionSummer',
+  'Other': 'general'
+};
+
+export const getSeasonalityProfile = (id: string) =>
+  SEASONALITY_PROFILES.find(profile => profile.id === id) || SEASONALITY_PROFILES[0];
+
+export const getProfileForIndustry = (industry?: string) =>
+  getSeasonalityProfile(INDUSTRY_SEASONALITY[industry || ''] || 'general');
+
+// Rescale factors so they average 1.0 and leave annual volume unchanged
+export const normalizeSeasonalFactors = (factors: number[]) => {
+  const safeFactors = factors.map(factor => (Number.isFinite(factor) && factor > 0 ? factor : 1));
+  const mean = safeFactors.reduce((sum, factor) => sum + factor, 0) / (safeFactors.length || 1);
+  return safeFactors.map(factor => Math.round((factor / mean) * 1000) / 1000);
+};
+
+// Derive a profile from chronological monthly revenue: remove the linear trend, then
+// average each calendar month's ratio to trend; months without history stay at 1.0
+export const deriveSeasonalityFromHistory = (history: RevenueHistoryPoint[]): number[] => {
+  const points = history.filter(point => Number.isFinite(point.revenue) && point.revenue > 0);
+  if (points.length < 2) {
+    return new Array(12).fill(1);
+  }
+
+  const n = points.length;
+  const meanX = (n - 1) / 2;
+  const meanY = points.reduce((sum, point) => sum + point.revenue, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  points.forEach((point, index) => {
+    covariance += (index - meanX) * (point.revenue - meanY);
+    variance += (index - meanX) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+
+  const ratioSums = new Array(12).fill(0);
+  const ratioCounts = new Array(12).fill(0);
+  points.forEach((point, index) => {
+    const trend = meanY + slope * (index - meanX);
+    if (trend <= 0) return;
+    const calendarMonth = ((point.month % 12) + 12) % 12;
+    ratioSums[calendarMonth] += point.revenue / trend;
+    ratioCounts[calendarMonth] += 1;
+  });
+
+  return normalizeSeasonalFactors(ratioSums.map((sum, month) => (ratioCounts[month] > 0 ? sum / ratioCounts[month] : 1)));
+};
+
+const parseMonth = (value: string, fallback: number) => {
+  const trimmed = value.trim();
+  const byName = MONTH_LABELS.findIndex(label => trimmed.toLowerCase().startsWith(label.toLowerCase()));
+  if (byName >= 0) return byName;
+  const date = new Date(trimmed);
+  if (!Number.isNaN(date.getTime()) && /\d{4}/.test(trimmed)) return date.getUTCMonth();
+  const numeric = parseInt(trimmed, 10);
+  return numeric >= 1 && numeric <= 12 ? numeric - 1 : fallback;
+};
+
+// Parse "month,revenue" CSV rows (month as name, number or date); header rows are skipped
+export const parseRevenueHistoryCsv = (text: string): RevenueHistoryPoint[] => {
+  const rows = text.split(/\r?\n/).map(row => row.trim()).filter(Boolean);
+  const history: RevenueHistoryPoint[] = [];
+
+  rows.forEach((row) => {
+    const [monthCell, revenueCell] = row.split(/[,;\t]/);
+    const revenue = parseFloat((revenueCell || '').replace(/[^0-9.-]/g, ''));
+    if (!Number.isFinite(revenue)) return;
+    const previousMonth = history.length > 0 ? history[history.length - 1].month : -1;
+    history.push({ month: parseMonth(monthCell || '', (previousMonth + 1) % 12), revenue });
+  });
+
+  return history;
+};
+
+type RevenueHistoryEntry = number | { month?: string | number; revenue?: string | number };
+
+// Pull monthly revenue history out of extracted P&L data when the backend provides it
+export const extractRevenueHistory = (plData?: { monthly_revenue?: RevenueHistoryEntry[]; revenue_history?: RevenueHistoryEntry[] }): RevenueHistoryPoint[] => {
+  const series = plData?.monthly_revenue || plData?.revenue_history;
+  if (!Array.isArray(series)) return [];
+
+  return series
+    .map((entry, index) => typeof entry === 'number'
+      ? { month: index % 12, revenue: entry }
+      : { month: parseMonth(String(entry.month ?? index + 1), index % 12), revenue: Number(entry.revenue) })
+    .filter(point => Number.isFinite(point.revenue));
+};
@@ -0,0 +1,164 @@
+// One-at-a-time sensitivity analysis on top of the forecast engine
+
+import {
+  generateForecastData,
+  calculateSummaryMetrics,
+  type PLData,
+  type OperationalFactors,
+  type ForecastOptions
+} from './simulationUtils';
+import { getAssumptions } from './assumptionsUtils';
+import { applyProductLines } from './productLineUtils';
+
+export type SensitivityInputId =
+  | 'price'
+  | 'marketing'
+  | 'laborAutomationLevel'
+  | 'productionEfficiency'
+  | 'inventoryTurnoverRate'
+  | 'monthlyCOGS'
+  | 'monthlyLabor'
+  | 'monthlyOverhead';
+
+export type SensitivityMetric = 'annualProfit' | 'roi';
+
+export interface SensitivityRange {
+  id: SensitivityInputId;
+  label: string;
+  mode: 'relative' | 'absolute'; // relative = fraction of current value, absolute = units of the input
+  low: number;
+  high: number;
+  min?: number;
+  max?: number;
+}
+
+export interface SensitivityScenario {
+  baselineData: PLData;
+  priceValue: number;
+  marketingValue: number;
+  operationalFactors: OperationalFactors;
+  forecastOptions?: ForecastOptions;
+}
+
+export interface SensitivityResult {
+  id: SensitivityInputId;
+  label: string;
+  lowInput: number;
+  highInput: number;
+  lowValue: number;
+  highValue: number;
+  baseValue: number;
+  swing: number;
+}
+
+// Operational inputs are clamped to the Sandbox slider ranges, which start at the assumed baselines
+export const getSensitivityRanges = (baselineData: PLData): SensitivityRange[] => {
+  const { baselineEfficiency, baselineInventoryTurns } = getAssumptions(baselineData);
+  return [
+    { id: 'price', label: 'Product Price', mode: 'relative', low: -0.1, high: 0.1 },
+    { id: 'marketing', label: 'Marketing Spend', mode: 'relative', low: -0.1, high: 0.1, min: 0 },
+    { id: 'laborAutomationLevel', label: 'Labor Automation', mode: 'absolute', low: -10, high: 10, min: 0, max: 80 },
+    {
+      id: 'productionEfficiency', label: 'Production Efficiency', mode: 'absolute', low: -10, high: 10,
+      min: baselineEfficiency, max: baselineEfficiency + 50
+    },
+    {
+      id: 'inventoryTurnoverRate', label: 'Inventory Turnover', mode: 'absolute', low: -2, high: 2,
+      min: baselineInventoryTurns, max: baselineInventoryTurns + 6
+    },
+    { id: 'monthlyCOGS', label: 'Baseline COGS', mode: 'relative', low: -0.1, high: 0.1, min: 0 },
+    { id: 'monthlyLabor', label: 'Baseline Labor', mode: 'relative', low: -0.1, high: 0.1, min: 0 },
+    { id: 'monthlyOverhead', label: 'Baseline Overhead', mode: 'relative', low: -0.1, high: 0.1, min: 0 }
+  ];
+};
+
+const getInputValue = (scenario: SensitivityScenario, id: SensitivityInputId) => {
+  switch (id) {
+    case 'price':
+      return scenario.priceValue;
+    case 'marketing':
+      return scenario.marketingValue;
+    case 'laborAutomationLevel':
+    case 'productionEfficiency':
+    case 'inventoryTurnoverRate':
+      return scenario.operationalFactors[id];
+    default:
+      return scenario.baselineData[id];
+  }
+};
+
+const setInputValue = (scenario: SensitivityScenario, id: SensitivityInputId, value: number): SensitivityScenario => {
+  switch (id) {
+    case 'price':
+      return { ...scenario, priceValue: value };
+    case 'marketing':
+      return { ...scenario, marketingValue: value };
+    case 'laborAutomationLevel':
+    case 'productionEfficiency':
+    case 'inventoryTurnoverRate':
+      return { ...scenario, operationalFactors: { ...scenario.operationalFactors, [id]: value } };
+    default: {
+      // With product lines COGS is each line's unit COGS times its units, so scale the unit costs instead
+      const { productLines, monthlyCOGS } = scenario.baselineData;
+      if (id === 'monthlyCOGS' && productLines?.length) {
+        const factor = monthlyCOGS > 0 ? value / monthlyCOGS : 1;
+        const lines = productLines.map(line => ({ ...line, unitCOGS: line.unitCOGS * factor }));
+        return { ...scenario, baselineData: applyProductLines(scenario.baselineData, lines) };
+      }
+      // Cost lines feed the baseline profit, so keep it consistent
+      const baselineData = { ...scenario.baselineData, [id]: value };
+      baselineData.monthlyProfit = baselineData.monthlyRevenue - baselineData.monthlyCOGS - baselineData.monthlyLabor - baselineData.monthlyOverhead;
+      return { ...scenario, baselineData };
+    }
+  }
+};
+
+// Evaluate a scenario on the chosen output metric
+export const evaluateScenarioMetric = (scenario: SensitivityScenario, metric: SensitivityMetric) => {
+  const forecast = generateForecastData(scenario.baselineData, scenario.priceValue, scenario.marketingValue, scenario.operationalFactors, scenario.forecastOptions);
+  if (metric === 'annualProfit') {
+    return forecast.slice(0, 12).reduce((sum, month) => sum + month.adjustedProfit, 0);
+  }
+  return calculateSummaryMetrics(scenario.baselineData, forecast, scenario.marketingValue, scenario.operationalFactors, {
+    investmentModel: scenario.forecastOptions?.investmentModel
+  }).roi;
+};
+
+// Perturb each input between its low and high range and rank by effect on the metric
+export const runSensitivityAnalysis = (
+  scenario: SensitivityScenario,
+  metric: SensitivityMetric = 'annualProfit',
+  ranges: SensitivityRange[] = getSensitivityRanges(scenario.baselineData),
+  onProgress?: (completed: number, total: number) => void
+): SensitivityResult[] => {
+  const baseValue = evaluateScenarioMetric(scenario, metric);
+
+  return ranges
+    .map((range, index) => {
+      const current = getInputValue(scenario, range.id);
+      const clamp = (value: number) => Math.min(range.max ?? Infinity, Math.max(range.min ?? -Infinity, value));
+      const shift = (delta: number) => clamp(range.mode === 'relative' ? current * (1 + delta) : current + delta);
+
+      const lowInput = shift(range.low);
+      const highInput = shift(range.high);
+      const lowValue = evaluateScenarioMetric(setInputValue(scenario, range.id, lowInput), metric);
+      const highValue = evaluateScenarioMetric(setInputValue(scenario, range.id, highInput), metric);
+      onProgress?.(index + 1, ranges.length);
+
+      return {
+        id: range.id,
+        label: range.label,
+        lowInput,
+        highInput,
+        lowValue,
+        highValue,
+        baseValue,
+        swing: Math.abs(highValue - lowValue)
+      };
+    })
+    .sort((a, b) => b.swing - a.swing);
+};
+
+// Scale every range by a common factor (e.g. 2 for a wide analysis)
+export const scaleSensitivityRanges = (ranges: SensitivityRange[], factor: number): SensitivityRange[] =>
+  ranges.map(range => ({ ...range, low: range.low * factor, high: range.high * factor }));
@@ -1,5 +1,40 @@
 // Utility functions for business simulation calculations
 
+import { calculateDiscountedMetrics, DEFAULT_DISCOUNT_RATE } from './financeUtils';
+import { buildInvestmentSchedule, type InvestmentModel } from './investmentUtils';
+import { extractProductLines, applyProductLines } from './productLineUtils';
+import {
+  calculateChannelMixBoost,
+  scaleChannelsToBudget,
+  buildMarketingSpendPath,
+  applyAdstock,
+  type MarketingChannel,
+  type MarketingAdstock,
+  type MarketingSpendChange
+} from './marketingUtils';
+import { calculateCapacityUnits, type CapacityModel } from './capacityUtils';
+import { getRampProgress, hasInterventionStarted, type InterventionSchedule, type InterventionTimeline } from './timelineUtils';
+import {
+  createDefaultHeadcount,
+  calculateRoleAutomationImpacts,
+  extractHeadcount,
+  applyHeadcount,
+  type HeadcountModel
+} from './headcountUtils';
+import { getInflationFactors, calculatePriceFactor, type InflationAssumptions } from './inflationUtils';
+import { calculateTaxSchedule, calculateAfterTaxProfit, type TaxConfig } from './taxUtils';
+import { convertAmount } from '@/lib/currency';
+import { DEFAULT_ENGINE_COEFFICIENTS, type EngineCoefficients } from './calibrationUtils';
+import { getAssumptions, type SimulationAssumptions } from './assumptionsUtils';
+import { getLeverTiers, type ResponseCurveType } from './responseCurveUtils';
+import {
+  extractSubscription,
+  applySubscription,
+  projectSubscriptions,
+  MAX_CHURN_REDUCTION,
+  type SubscriptionModel
+} from './subscriptionUtils';
+
 export interface PLData {
   monthlyRevenue: number;
   monthlyCOGS: number;
@@ -9,6 +44,45 @@ export interface PLData {
   averagePrice: number;
   unitsSold: number;
   marketingSpend: number;
+  demandModel?: DemandModel;
+  productLines?: ProductLine[]; // when present, revenue, COGS, price and units are the line totals
+  headcount?: HeadcountModel; // when present, labor is the roster total; otherwise a default roster is assumed
+  coefficients?: Partial<EngineCoefficients>; // calibrated from the company's history; engine defaults fill the rest
+  assumptions?: Partial<SimulationAssumptions>; // edited engine assumptions; the registry defaults fill the rest
+  responseCurve?: ResponseCurveType; // how lever moves turn into impact; linear when absent
+  subscription?: SubscriptionModel; // recurring-revenue mode: price is ARPU, units are customers and revenue is MRR
+}
+
+export interface ProductLine {
+  id: string;
+  name: string;
+  price: number;
+  unitsSold: number; // per month
+  unitCOGS: number;
+  elasticity: number;
+}
+
+export interface ProductLineImpact {
+  id: string;
+  name: string;
+  price: number;
+  units: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  baselineGrossProfit: number;
+  demandChange: number;
+}
+
+export type DemandModelType = 'linear' | 'constantElasticity' | 'kinked' | 'referencePrice';
+
+export interface DemandModel {
+  type: DemandModelType;
+  elasticity: number; // % demand change per 1% price change (linear, constant elasticity, reference price)
+  increaseElasticity?: number; // kinked: response to price increases
+  decreaseElasticity?: number; // kinked: response to price decreases
+  referencePrice?: number; // reference price: price customers anchor on (defaults to baseline price)
+  lossAversion?: number; // reference price: extra sensitivity when priced above the reference
 }
 
 export interface OperationalFactors {
@@ -25,6 +99,46 @@ export interface ForecastData {
   originalUpperBound: number;
   adjustedLowerBound: number;
   adjustedUpperBound: number;
+  adjustedRevenue: number;
+  adjustedCOGS: number;
+  adjustedP10?: number;
+  adjustedP50?: number;
+  adjustedP90?: number;
+  marketingSpend?: number; // scenario marketing spend paid this month
+  unitsSold?: number; // units sold this month, after any capacity cap
+  demandUnits?: number; // with a capacity model: units customers want this month
+  capacityUnits?: number; // with a capacity model: units the business can make this month
+  unmetUnits?: number; // demand above capacity, not sold
+  lostRevenue?: number; // revenue from unmet units
+  investmentExpense?: number; // capex mode: depreciation, interest and lease charges in adjusted profit
+  investmentCashFlow?: number; // capex mode: cash paid for the investment this month
+  investmentDepreciation?: number; // capex mode: depreciation share of investmentExpense
+  customers?: number; // subscription mode: active customers at month end
+  newCustomers?: number; // subscription mode: sign-ups this month
+  churnedCustomers?: number; // subscription mode: cancellations this month
+  mrr?: number; // subscription mode: scenario monthly recurring revenue, before price inflation
+  originalMrr?: number; // subscription mode: status quo monthly recurring revenue
+}
+
+// Optional forecast settings and driver overrides used by scenario and risk analysis
+export interface ForecastOptions {
+  startMonth?: number; // 0 = January
+  horizonMonths?: number; // 12-60 months
+  annualGrowthRate?: number; // compounding baseline growth, e.g. 0.035
+  seasonalFactors?: number[]; // 12 calendar-month multipliers, January first
+  marketingResponseMultiplier?: number; // scales the revenue boost from marketing
+  seasonalityShocks?: number[]; // per-month multipliers applied on top of seasonal factors
+  annualCostInflation?: number; // extra annual rate added to every cost inflation rate (risk sampling)
+  inflation?: InflationAssumptions; // cost, wage and price inflation; costs and prices stay flat without it
+  investmentModel?: InvestmentModel; // capex mode replaces the monthly automation and efficiency fees
+  productPrices?: Record<string, number>; // per product-line price overrides, keyed by line id
+  marketingChannels?: MarketingChannel[]; // channel mix; spend is resized to the marketing total
+  marketingStartMonth?: number; // 1-based month the new marketing spend starts; baseline spend before
+  marketingSchedule?: MarketingSpendChange[]; // later spend changes, each holding until the next
+  marketingAdstock?: MarketingAdstock; // lag and carry-over; without it spend changes act instantly
+  interventionTimeline?: InterventionTimeline; // start month and ramp per lever; levers act in month one without it
+  capacity?: CapacityModel; // caps units sold at production capacity; demand is unconstrained without it
+  churnReduction?: number; // subscription mode: relative cut in monthly churn from retention work (0-0.5)
 }
 
 // Extract P&L data from uploaded file or simulation data
@@ -46,20 +160,21 @@ export const extractPLData = (simulationData: any): PLData => {
   }
 
   // Extract from simulation data structure
+  // Uploaded amounts are converted into the reporting currency; the defaults already are
   const baseline = simulationData.baseline || {};
-  const revenue = baseline.revenue || defaultData.monthlyRevenue;
+  const revenue = baseline.revenue ? convertAmount(baseline.revenue) : defaultData.monthlyRevenue;
   const costs = baseline.costs || {};
-  const cogs = costs.cogs || defaultData.monthlyCOGS;
-  const labor = costs.labor || defaultData.monthlyLabor;
-  const overhead = costs.overhead || defaultData.monthlyOverhead;
+  const cogs = costs.cogs ? convertAmount(costs.cogs) : defaultData.monthlyCOGS;
+  const labor = costs.labor ? convertAmount(costs.labor) : defaultData.monthlyLabor;
+  const overhead = costs.overhead ? convertAmount(costs.overhead) : defaultData.monthlyOverhead;
   const profit = revenue - cogs - labor - overhead;
 
   // Estimate average price and units (could be enhanced with actual data)
-  const averagePrice = simulationData.averagePrice || defaultData.averagePrice;
+  const averagePrice = simulationData.averagePrice ? convertAmount(simulationData.averagePrice) : defaultData.averagePrice;
   const unitsSold = revenue / averagePrice;
-  const marketingSpend = simulationData.marketingSpend || defaultData.marketingSpend;
+  const marketingSpend = simulationData.marketingSpend ? convertAmount(simulationData.marketingSpend) : defaultData.marketingSpend;
 
-  return {
+  const plData: PLData = {
     monthlyRevenue: revenue,
     monthlyCOGS: cogs,
     monthlyLabor: labor,
@@ -69,20 +184,127 @@ export const extractPLData = (simulationData: any): PLData => {
     unitsSold,
     marketingSpend
   };
+
+  // Product lines and a headcount roster, when uploaded, replace the aggregate estimates
+  const productLines = extractProductLines(simulationData).map(line => ({
+    ...line,
+    price: convertAmount(line.price),
+    unitCOGS: convertAmount(line.unitCOGS)
+  }));
+  const uploadedHeadcount = extractHeadcount(simulationData);
+  const headcount = uploadedHeadcount && {
+    ...uploadedHeadcount,
+    roles: uploadedHeadcount.roles.map(role => ({ ...role, monthlyCostPerFte: convertAmount(role.monthlyCostPerFte) }))
+  };
+  const withProductLines = productLines.length > 0 ? applyProductLines(plData, productLines) : plData;
+  const withHeadcount = headcount ? applyHeadcount(withProductLines, headcount) : withProductLines;
+  // A subscription model replaces unit sales with customers and MRR
+  const subscription = extractSubscription(simulationData, withHeadcount);
+  return subscription ? applySubscription(withHeadcount, subscription) : withHeadcount;
 };
 
-// Calculate price elasticity impact
-export const calculatePriceImpact = (baselineData: PLData, newPrice: number) => {
-  const priceChangePercent = (newPrice - baselineData.averagePrice) / baselineData.averagePrice;
+// Default demand model: 10% price increase = 15% demand decrease, 10% price decrease = 8% demand increase
+export const DEFAULT_DEMAND_MODEL: DemandModel = {
+  type: 'kinked',
+  elasticity: 1.2,
+  increaseElasticity: 1.5,
+  decreaseElasticity: 0.8
+};
+
+// Calculate demand change for a price move under the given demand model
+export const calculateDemandChange = (model: DemandModel, basePrice: number, newPrice: number) => {
+  const priceChangePercent = (newPrice - basePrice) / basePrice;
   let demandChangePercent;
-  
-  if (priceChangePercent > 0) {
-    // Price increase: 10% price increase = 15% demand decrease
-    demandChangePercent = -priceChangePercent * 1.5;
-  } else {
-    // Price decrease: 10% price decrease = 8% demand increase
-    demandChangePercent = -priceChangePercent * 0.8;
+
+  switch (model.type) {
+    case 'constantElasticity':
+      // Log-log demand: Q1/Q0 = (P1/P0)^-e
+      demandChangePercent = Math.pow(newPrice / basePrice, -model.elasticity) - 1;
+      break;
+    case 'kinked':
+      demandChangePercent = priceChangePercent > 0
+        ? -priceChangePercent * (model.increaseElasticity ?? model.elasticity)
+        : -priceChangePercent * (model.decreaseElasticity ?? model.elasticity);
+      break;
+    case 'referencePrice': {
+      // Customers judge price against a reference; prices above it feel like losses
+      const referencePrice = model.referencePrice || basePrice;
+      const lossAversion = model.lossAversion ?? 2;
+      const demandIndex = (price: number) => {
+        const gap = (price - referencePrice) / referencePrice;
+        return 1 - model.elasticity * gap * (gap > 0 ? lossAversion : 1);
+      };
+      const baseIndex = demandIndex(basePrice);
+      demandChangePercent = baseIndex > 0 ? demandIndex(newPrice) / baseIndex - 1 : 0;
+      break;
+    }
+    case 'linear':
+    default:
+      demandChangePercent = -priceChangePercent * model.elasticity;
   }
+
+  // Demand cannot fall below zero units
+  return Math.max(demandChangePercent || 0, -1);
+};
+
+// Demand model for a product line: the line's elasticity with the selected model's shape
+const getProductLineDemandModel = (model: DemandModel, line: ProductLine): DemandModel => {
+  const scale = model.elasticity > 0 ? line.elasticity / model.elasticity : 1;
+  return {
+    ...model,
+    elasticity: line.elasticity,
+    increaseElasticity: model.increaseElasticity !== undefined ? model.increaseElasticity * scale : undefined,
+    decreaseElasticity: model.decreaseElasticity !== undefined ? model.decreaseElasticity * scale : undefined,
+    referencePrice: undefined // each line anchors on its own baseline price
+  };
+};
+
+// Per-line price, volume and gross profit; lines without an override move with the overall price
+export const calculateProductLineImpacts = (
+  baselineData: PLData,
+  newPrice: number,
+  productPrices: Record<string, number> = {}
+): ProductLineImpact[] => {
+  const demandModel = baselineData.demandModel || DEFAULT_DEMAND_MODEL;
+  const priceScale = baselineData.averagePrice > 0 ? newPrice / baselineData.averagePrice : 1;
+
+  return (baselineData.productLines || []).map(line => {
+    const price = productPrices[line.id] ?? line.price * priceScale;
+    const demandChange = calculateDemandChange(getProductLineDemandModel(demandModel, line), line.price, price);
+    const units = line.unitsSold * (1 + demandChange);
+    const revenue = price * units;
+    const cogs = line.unitCOGS * units;
+
+    return {
+      id: line.id,
+      name: line.name,
+      price,
+      units,
+      revenue,
+      cogs,
+      grossProfit: revenue - cogs,
+      baselineGrossProfit: (line.price - line.unitCOGS) * line.unitsSold,
+      demandChange
+    };
+  });
+};
+
+// Calculate price elasticity impact
+export const calculatePriceImpact = (baselineData: PLData, newPrice: number, productPrices?: Record<string, number>) => {
+  if (baselineData.productLines?.length) {
+    const lines = calculateProductLineImpacts(baselineData, newPrice, productPrices);
+    const units = lines.reduce((sum, line) => sum + line.units, 0);
+    return {
+      revenue: lines.reduce((sum, line) => sum + line.revenue, 0),
+      cogs: lines.reduce((sum, line) => sum + line.cogs, 0),
+      units,
+      demandChange: baselineData.unitsSold > 0 ? units / baselineData.unitsSold - 1 : 0,
+      lines
+    };
+  }
+  
+  const demandModel = baselineData.demandModel || DEFAULT_DEMAND_MODEL;
+  const demandChangePercent = calculateDemandChange(demandModel, baselineData.averagePrice, newPrice);
   
   const newUnits = baselineData.unitsSold * (1 + demandChangePercent);
   const newRevenue = newPrice * newUnits;
@@ -97,49 +319,84 @@ export const calculatePriceImpact = (baselineData: PLData, newPrice: number) =>
 };
 
 // Calculate marketing impact with diminishing returns
-export const calculateMarketingImpact = (baselineData: PLData, marketingSpend: number) => {
+export const calculateMarketingImpact = (
+  baselineData: PLData,
+  marketingSpend: number,
+  resolvedAssumptions: SimulationAssumptions = getAssumptions(baselineData)
+) => {
   const additionalSpend = marketingSpend - baselineData.marketingSpend;
+  const { marketingTierSize: tierSize, ...assumptions } = resolvedAssumptions;
   let revenueBoostPercent = 0;
   
   if (additionalSpend > 0) {
-    // First $10k = 20% boost
-    const firstTier = Math.min(additionalSpend, 10000);
-    revenueBoostPercent += (firstTier / 10000) * 0.20;
-    
-    // Next $10k = 10% additional boost
-    if (additionalSpend > 10000) {
-      const secondTier = Math.min(additionalSpend - 10000, 10000);
-      revenueBoostPercent += (secondTier / 10000) * 0.10;
+    // First tier of extra spend earns the largest boost
+    const firstTier = Math.min(additionalSpend, tierSize);
+    revenueBoostPercent += (firstTier / tierSize) * assumptions.marketingFirstTierBoost;
+    
+    // Second tier earns a smaller additional boost
+    if (additionalSpend > tierSize) {
+      const secondTier = Math.min(additionalSpend - tierSize, tierSize);
+      revenueBoostPercent += (secondTier / tierSize) * assumptions.marketingSecondTierBoost;
       
-      // Beyond $20k = 5% per $10k (capped at 50% total)
-      if (additionalSpend > 20000) {
-        const thirdTier = additionalSpend - 20000;
-        const thirdTierBoost = Math.min((thirdTier / 10000) * 0.05, 0.20); // Cap at 20% for third tier
-        revenueBoostPercent += thirdTierBoost;
+      // Beyond two tiers, each further tier earns the later-tier boost
+      if (additionalSpend > 2 * tierSize) {
+        const thirdTier = additionalSpend - 2 * tierSize;
+        revenueBoostPercent += (thirdTier / tierSize) * assumptions.marketingLaterTierBoost;
       }
     }
   }
   
-  return Math.min(revenueBoostPercent, 0.50); // Cap total at 50%
+  return Math.min(revenueBoostPercent, assumptions.marketingMaxBoost); // Cap the total boost
+};
+
+// Share of labor cost the role model saves per 10% automation tier
+const getRoleModelReductionPerTier = (baselineData: PLData, headcount: HeadcountModel) => {
+  if (baselineData.monthlyLabor <= 0) return 0;
+  const { baselineAutomationLevel } = getAssumptions(baselineData);
+  const savings = calculateRoleAutomationImpacts(headcount, baselineData.monthlyLabor, 10 / (100 - baselineAutomationLevel))
+    .reduce((sum, role) => sum + role.savings, 0);
+  return savings / baselineData.monthlyLabor;
+};
+
+// Coefficients the engine runs with: calibrated values where present, otherwise the defaults
+// (labor defaults to what the role model implies, so it follows the roster)
+export const getEngineCoefficients = (baselineData: PLData): EngineCoefficients => {
+  const { cogsReductionPerTier, carryingCostPerTurn } = getAssumptions(baselineData);
+  return {
+    ...DEFAULT_ENGINE_COEFFICIENTS,
+    cogsReductionPerTier,
+    carryingCostPerTurn,
+    laborReductionPerTier: getRoleModelReductionPerTier(baselineData, baselineData.headcount || createDefaultHeadcount(baselineData)),
+    ...baselineData.coefficients
+  };
 };
 
 // Calculate labor automation impact
 export const calculateLaborAutomationImpact = (baselineData: PLData, automationLevel: number) => {
   try {
-    // Baseline: 10% automation, labor is 35% of total operating expenses
-    const baselineAutomation = 10; // 10%
-    const totalOperatingExpenses = baselineData.monthlyCOGS + baselineData.monthlyLabor + baselineData.monthlyOverhead;
-    const baselineLaborCost = totalOperatingExpenses * 0.35;
+    // Measured from the baseline automation level; each 10% step automates an equal slice of the remaining hours
+    const assumptions = getAssumptions(baselineData);
+    const baselineAutomation = assumptions.baselineAutomationLevel;
+    const headcount = baselineData.headcount || createDefaultHeadcount(baselineData);
     
-    // Calculate automation change
+    // Calculate automation change; the response curve shapes the savings, fees follow the change itself
     const automationChange = automationLevel - baselineAutomation;
-    const automationTiers = Math.floor(automationChange / 10);
+    const { benefitTiers, costTiers } = getLeverTiers(baselineData, automationChange / 10);
+    let automationShare = (benefitTiers * 10) / (100 - baselineAutomation);
+
+    // A calibrated rate rescales how much of each role a tier automates, keeping the role mix
+    const calibratedReduction = baselineData.coefficients?.laborReductionPerTier;
+    const roleModelReduction = getRoleModelReductionPerTier(baselineData, headcount);
+    if (calibratedReduction !== undefined && roleModelReduction > 0) {
+      automationShare *= calibratedReduction / roleModelReduction;
+    }
     
-    // Each 10% automation reduces labor costs by 8%
-    const laborCostReduction = automationTiers * 0.08 * baselineLaborCost;
+    // Savings come from the actual role costs: reduced roles save their full cost, redeployed roles part of it
+    const roleImpacts = calculateRoleAutomationImpacts(headcount, baselineData.monthlyLabor, automationShare);
+    const laborCostReduction = roleImpacts.reduce((sum, role) => sum + role.savings, 0);
     
-    // Automation investment: $2,000/month per 10% automation
-    const automationInvestment = automationTiers * 2000;
+    // Automation investment: a monthly fee per 10% automation
+    const automationInvestment = costTiers * assumptions.automationInvestmentPerTier;
     
     // Net impact = savings - investment
     const netImpact = laborCostReduction - automationInvestment;
@@ -147,33 +404,38 @@ export const calculateLaborAutomationImpact = (baselineData: PLData, automationL
     return {
       laborCostReduction: laborCostReduction || 0,
       automationInvestment: automationInvestment || 0,
-      netImpact: netImpact || 0
+      netImpact: netImpact || 0,
+      fteReduced: roleImpacts.reduce((sum, role) => sum + role.reducedFte, 0),
+      fteRedeployed: roleImpacts.reduce((sum, role) => sum + role.redeployedFte, 0),
+      roleImpacts
     };
   } catch (error) {
     console.error('Error calculating labor automation impact:', error);
-    return { laborCostReduction: 0, automationInvestment: 0, netImpact: 0 };
+    return { laborCostReduction: 0, automationInvestment: 0, netImpact: 0, fteReduced: 0, fteRedeployed: 0, roleImpacts: [] };
   }
 };
 
 // Calculate production efficiency impact
 export const calculateProductionEfficiencyImpact = (baselineData: PLData, efficiencyLevel: number) => {
   try {
-    // Baseline: 100% efficiency, COGS is 60% of revenue
-    const baselineEfficiency = 100;
-    const baselineCOGS = baselineData.monthlyRevenue * 0.60;
+    // Measured from the baseline efficiency, against a COGS base that is a set share of revenue
+    const assumptions = getAssumptions(baselineData);
+    const baselineEfficiency = assumptions.baselineEfficiency;
+    const baselineCOGS = baselineData.monthlyRevenue * assumptions.efficiencyCogsShare;
     
-    // Calculate efficiency change
+    // Calculate efficiency change; the response curve shapes the gains, fees follow the change itself
     const efficiencyChange = efficiencyLevel - baselineEfficiency;
-    const efficiencyTiers = Math.floor(efficiencyChange / 10);
+    const { benefitTiers, costTiers } = getLeverTiers(baselineData, efficiencyChange / 10);
     
-    // Each 10% efficiency increase reduces COGS by 6%
-    const cogsReduction = efficiencyTiers * 0.06 * baselineCOGS;
+    // Each 10% efficiency increase reduces COGS by the assumed share, or the company's calibrated rate
+    const cogsReductionPerTier = baselineData.coefficients?.cogsReductionPerTier ?? assumptions.cogsReductionPerTier;
+    const cogsReduction = benefitTiers * cogsReductionPerTier * baselineCOGS;
     
-    // Increases production capacity (allowing 5% more revenue potential)
-    const revenueIncrease = efficiencyTiers * 0.05 * baselineData.monthlyRevenue;
+    // Increases production capacity (allowing more revenue potential per tier)
+    const revenueIncrease = benefitTiers * assumptions.capacityGainPerTier * baselineData.monthlyRevenue;
     
-    // Implementation cost: $1,500/month amortized per 10% improvement
-    const implementationCost = efficiencyTiers * 1500;
+    // Implementation cost: a monthly fee amortized per 10% improvement
+    const implementationCost = costTiers * assumptions.efficiencyCostPerTier;
     
     // Net impact = savings + revenue increase - implementation cost
     const netImpact = cogsReduction + revenueIncrease - implementationCost;
@@ -193,24 +455,26 @@ export const calculateProductionEfficiencyImpact = (baselineData: PLData, effici
 // Calculate inventory turnover impact
 export const calculateInventoryTurnoverImpact = (baselineData: PLData, turnoverRate: number) => {
   try {
-    // Baseline: 6x per year turnover
-    const baselineTurnover = 6;
+    // Measured from the baseline turns per year
+    const assumptions = getAssumptions(baselineData);
+    const baselineTurnover = assumptions.baselineInventoryTurns;
     
     // Calculate turnover change
     const turnoverChange = turnoverRate - baselineTurnover;
     
-    // Each 1x increase reduces carrying costs by $500/month
-    const carryingCostReduction = turnoverChange * 500;
+    // Each 1x increase reduces carrying costs by the assumed monthly amount, or the company's calibrated amount
+    const carryingCostPerTurn = baselineData.coefficients?.carryingCostPerTurn ?? assumptions.carryingCostPerTurn;
+    const carryingCostReduction = turnoverChange * carryingCostPerTurn;
     
-    // Reduces waste/obsolescence costs by $300/month per 1x increase
-    const wasteReduction = turnoverChange * 300;
+    // Reduces waste/obsolescence costs per 1x increase
+    const wasteReduction = turnoverChange * assumptions.wasteReductionPerTurn;
     
-    // Implementation cost: $800/month for inventory management per 2x increase
-    const implementationCost = Math.floor(turnoverChange / 2) * 800;
+    // Implementation cost: a monthly inventory management fee per 2x increase
+    const implementationCost = getLeverTiers(baselineData, turnoverChange / 2).costTiers * assumptions.inventorySystemCostPerStep;
     
-    // Cash flow improvement (3% working capital reduction per 1x increase)
-    // This doesn't directly affect monthly profit but is noted for ROI
-    const workingCapitalReduction = turnoverChange * 0.03;
+    // Cash flow improvement (working capital reduction per 1x increase)
+    // This doesn't directly affect monthly profit; the cash-flow projection releases it via inventory days
+    const workingCapitalReduction = turnoverChange * assumptions.workingCapitalReleasePerTurn;
     
     // Net impact = carrying cost savings + waste reduction - implementation cost
     const netImpact = carryingCostReduction + wasteReduction - implementationCost;
@@ -228,23 +492,62 @@ export const calculateInventoryTurnoverImpact = (baselineData: PLData, turnoverR
   }
 };
 
-// Generate 12-month forecast with seasonal variation
+// Up-front capex for automation and efficiency projects, sized from their equivalent monthly fee
+export const calculateUpfrontCapex = (baselineData: PLData, operationalFactors: OperationalFactors | undefined, model: InvestmentModel) => {
+  if (!operationalFactors) return { automation: 0, efficiency: 0, total: 0 };
+  const automationFee = calculateLaborAutomationImpact(baselineData, operationalFactors.laborAutomationLevel).automationInvestment;
+  const efficiencyFee = calculateProductionEfficiencyImpact(baselineData, operationalFactors.productionEfficiency).implementationCost;
+  // Only improvements above baseline need new capital
+  const automation = Math.max(0, automationFee) * model.upfrontCostMultiple;
+  const efficiency = Math.max(0, efficiencyFee) * model.upfrontCostMultiple;
+  return { automation, efficiency, total: automation + efficiency };
+};
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const DEFAULT_SEASONAL_FACTORS = [0.95, 0.92, 1.02, 1.05, 1.08, 1.12, 1.15, 1.10, 1.05, 1.00, 0.90, 0.85];
+
+export const DEFAULT_FORECAST_OPTIONS: Required<Pick<ForecastOptions, 'startMonth' | 'horizonMonths' | 'annualGrowthRate'>> = {
+  startMonth: 0,
+  horizonMonths: 12,
+  annualGrowthRate: 0.035
+};
+
+// Generate a monthly forecast (12-60 months) with seasonal variation and compounding growth
 export const generateForecastData = (
   baselineData: PLData,
   priceValue: number,
   marketingValue: number,
-  operationalFactors?: OperationalFactors
+  operationalFactors?: OperationalFactors,
+  options: ForecastOptions = {}
 ): ForecastData[] => {
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const seasonalFactors = [0.95, 0.92, 1.02, 1.05, 1.08, 1.12, 1.15, 1.10, 1.05, 1.00, 0.90, 0.85];
+  const startMonth = options.startMonth ?? DEFAULT_FORECAST_OPTIONS.startMonth;
+  const horizonMonths = Math.min(60, Math.max(12, Math.round(options.horizonMonths ?? DEFAULT_FORECAST_OPTIONS.horizonMonths)));
+  const annualGrowthRate = options.annualGrowthRate ?? DEFAULT_FORECAST_OPTIONS.annualGrowthRate;
+  const seasonalFactors = options.seasonalFactors?.length === 12 ? options.seasonalFactors : DEFAULT_SEASONAL_FACTORS;
+  // Resolved once; every month reads the same registry values
+  const assumptions = getAssumptions(baselineData);
   
-  const priceImpact = calculatePriceImpact(baselineData, priceValue);
-  const marketingBoost = calculateMarketingImpact(baselineData, marketingValue);
+  const priceImpact = calculatePriceImpact(baselineData, priceValue, options.productPrices);
+  const baselinePriceImpact = calculatePriceImpact(baselineData, baselineData.averagePrice);
+  const timeline = options.interventionTimeline || {};
+  // Marketing: spend paid each month, and the effective (lagged, carried-over) spend that drives revenue
+  const marketingResponseMultiplier = options.marketingResponseMultiplier ?? 1;
+  const marketingSpendPath = buildMarketingSpendPath(
+    baselineData.marketingSpend,
+    marketingValue,
+    horizonMonths,
+    options.marketingStartMonth,
+    options.marketingSchedule
+  );
+  const effectiveMarketingSpend = options.marketingAdstock ?
+    applyAdstock(marketingSpendPath, baselineData.marketingSpend, options.marketingAdstock) :
+    marketingSpendPath;
   
   // Calculate operational impacts if provided
   const automationImpact = operationalFactors ? 
     calculateLaborAutomationImpact(baselineData, operationalFactors.laborAutomationLevel) : 
-    { netImpact: 0 };
+    { laborCostReduction: 0, automationInvestment: 0, netImpact: 0, fteReduced: 0, fteRedeployed: 0, roleImpacts: [] };
   
   const efficiencyImpact = operationalFactors ? 
     calculateProductionEfficiencyImpact(baselineData, operationalFactors.productionEfficiency) : 
@@ -252,30 +555,143 @@ export const generateForecastData = (
   
   const inventoryImpact = operationalFactors ? 
     calculateInventoryTurnoverImpact(baselineData, operationalFactors.inventoryTurnoverRate) : 
-    { netImpact: 0 };
+    { netImpact: 0, implementationCost: 0 };
+  
+  // Capex mode: automation savings stay, the flat fee is replaced by depreciation and financing charges.
+  // Each project's schedule begins in the month its rollout starts.
+  const isCapexMode = options.investmentModel?.mode === 'capex';
+  const upfrontCapex = isCapexMode ? calculateUpfrontCapex(baselineData, operationalFactors, options.investmentModel) : null;
+  const buildProjectSchedule = (capex: number, schedule?: InterventionSchedule) => {
+    const offset = (schedule?.startMonth || 1) - 1;
+    const entries = buildInvestmentSchedule(capex, options.investmentModel, Math.max(0, horizonMonths - offset));
+    return Array.from({ length: horizonMonths }, (_, index) => entries[index - offset]);
+  };
+  const automationSchedule = upfrontCapex ? buildProjectSchedule(upfrontCapex.automation, timeline.laborAutomationLevel) : [];
+  const efficiencySchedule = upfrontCapex ? buildProjectSchedule(upfrontCapex.efficiency, timeline.productionEfficiency) : [];
   
-  return months.map((month, index) => {
-    const growthFactor = 1 + (0.035 * (index / 12)); // 3.5% annual growth
-    const seasonalFactor = seasonalFactors[index];
+  // Subscription mode: revenue follows the customer base instead of market growth and seasonality.
+  // The price moves ARPU for every customer, raises churn and slows sign-ups; marketing above today's
+  // spend buys customers at the CAC, and retention work cuts churn for a monthly cost.
+  const subscription = baselineData.subscription;
+  const churnReduction = subscription ? Math.min(MAX_CHURN_REDUCTION, Math.max(0, options.churnReduction || 0)) : 0;
+  const originalSubscriptions = subscription ? projectSubscriptions(subscription, horizonMonths) : [];
+  const adjustedSubscriptions = subscription ? projectSubscriptions(subscription, horizonMonths, index => {
+    const arpuFactor = 1 + (priceValue / subscription.arpu - 1) * getRampProgress(timeline.price, index);
+    return {
+      arpuFactor,
+      churnMultiplier: (1 - churnReduction) * Math.max(0, 1 + subscription.churnPriceSensitivity * (arpuFactor - 1)),
+      acquisitionMultiplier: 1 + calculateDemandChange(baselineData.demandModel || DEFAULT_DEMAND_MODEL, subscription.arpu, subscription.arpu * arpuFactor),
+      extraNewCustomers: subscription.cac > 0 ?
+        (effectiveMarketingSpend[index] - baselineData.marketingSpend) / subscription.cac * marketingResponseMultiplier : 0
+    };
+  }) : [];
+  const cogsPerCustomer = subscription && subscription.customers > 0 ? baselineData.monthlyCOGS / subscription.customers : 0;
+  const retentionCost = churnReduction * 100 * (subscription?.retentionCostPerPoint || 0);
+  
+  return Array.from({ length: horizonMonths }, (_, index) => {
+    const calendarMonth = (startMonth + index) % 12;
+    const month = horizonMonths > 12 ? `${MONTH_LABELS[calendarMonth]} Y${Math.floor(index / 12) + 1}` : MONTH_LABELS[calendarMonth];
+    const growthFactor = Math.pow(1 + annualGrowthRate, index / 12);
+    const seasonalFactor = seasonalFactors[calendarMonth] * (options.seasonalityShocks?.[index] ?? 1);
+    const inflation = getInflationFactors(options.inflation, index, options.annualCostInflation || 0);
+    const originalSubscription = originalSubscriptions[index];
+    const adjustedSubscription = adjustedSubscriptions[index];
+    const originalRevenue = originalSubscription ? originalSubscription.mrr : baselineData.monthlyRevenue * growthFactor * seasonalFactor;
+    const originalCOGS = originalSubscription ? cogsPerCustomer * originalSubscription.customers : baselineData.monthlyCOGS * growthFactor * seasonalFactor;
+    const costInflationDrag = originalCOGS * (inflation.cogs - 1) +
+      baselineData.monthlyLabor * (inflation.wages - 1) + baselineData.monthlyOverhead * (inflation.overhead - 1);
+    const originalPriceFactor = calculatePriceFactor(options.inflation, inflation, originalRevenue, costInflationDrag);
     
     // Original forecast
-    const baseProfit = baselineData.monthlyProfit * growthFactor * seasonalFactor;
-    const originalProfit = baseProfit;
+    const baseProfit = originalSubscription ?
+      baselineData.monthlyProfit + (originalRevenue - baselineData.monthlyRevenue) - (originalCOGS - baselineData.monthlyCOGS) :
+      baselineData.monthlyProfit * growthFactor * seasonalFactor;
+    let originalProfit = baseProfit - costInflationDrag + originalRevenue * (originalPriceFactor - 1);
+    
+    // The status quo runs into the same baseline capacity; subscriptions have no production capacity
+    if (options.capacity && !subscription) {
+      const originalDemand = baselineData.unitsSold * growthFactor * seasonalFactor;
+      const originalCapacity = options.capacity.baseUnitsPerMonth;
+      if (originalDemand > originalCapacity) {
+        const unsoldShare = 1 - originalCapacity / originalDemand;
+        originalProfit -= (baselineData.monthlyRevenue * originalPriceFactor - baselineData.monthlyCOGS * inflation.cogs) * growthFactor * seasonalFactor * unsoldShare;
+      }
+    }
     
     // Adjusted forecast with all impacts
-    let adjustedRevenue = priceImpact.revenue * (1 + marketingBoost) * growthFactor * seasonalFactor;
-    let adjustedCOGS = priceImpact.cogs * growthFactor * seasonalFactor;
+    const marketingBoost = (options.marketingChannels?.length ?
+      calculateChannelMixBoost(scaleChannelsToBudget(options.marketingChannels, effectiveMarketingSpend[index]), index) :
+      calculateMarketingImpact(baselineData, effectiveMarketingSpend[index], assumptions)) * marketingResponseMultiplier;
+    // Phased levers: the ramp blends from the baseline to the full effect; running costs start with the rollout
+    const priceProgress = getRampProgress(timeline.price, index);
+    const automationProgress = getRampProgress(timeline.laborAutomationLevel, index);
+    const efficiencyProgress = getRampProgress(timeline.productionEfficiency, index);
+    const inventoryProgress = getRampProgress(timeline.inventoryTurnoverRate, index);
+    const phasedRevenue = baselinePriceImpact.revenue + (priceImpact.revenue - baselinePriceImpact.revenue) * priceProgress;
+    const phasedCOGS = baselinePriceImpact.cogs + (priceImpact.cogs - baselinePriceImpact.cogs) * priceProgress;
+    
+    let adjustedRevenue = adjustedSubscription ? adjustedSubscription.mrr : phasedRevenue * (1 + marketingBoost) * growthFactor * seasonalFactor;
+    let adjustedCOGS = adjustedSubscription ? cogsPerCustomer * adjustedSubscription.customers : phasedCOGS * growthFactor * seasonalFactor;
     
     // Add operational impacts
-    adjustedRevenue += (efficiencyImpact.revenueIncrease || 0) * growthFactor * seasonalFactor;
-    adjustedCOGS -= (efficiencyImpact.cogsReduction || 0) * growthFactor * seasonalFactor;
+    const operationalVolume = subscription ? 1 : growthFactor * seasonalFactor;
+    adjustedRevenue += (efficiencyImpact.revenueIncrease || 0) * efficiencyProgress * operationalVolume;
+    adjustedCOGS -= (efficiencyImpact.cogsReduction || 0) * efficiencyProgress * operationalVolume;
+    
+    // Inflation: costs rise at their own rates, and wage growth also grows the labor automation saves.
+    // Price inflation and pass-through lift revenue without changing units.
+    const laborSavings = (automationImpact.laborCostReduction || 0) * automationProgress;
+    const hasCapacity = Boolean(options.capacity) && !subscription;
+    const capacityLaborFactor = hasCapacity ? options.capacity.laborCapacityFactor : 1;
+    const adjustedCostIncrease = adjustedCOGS * (inflation.cogs - 1) +
+      (baselineData.monthlyLabor * capacityLaborFactor - laborSavings) * (inflation.wages - 1) +
+      baselineData.monthlyOverhead * (inflation.overhead - 1);
+    const adjustedPriceFactor = calculatePriceFactor(options.inflation, inflation, adjustedRevenue, adjustedCostIncrease);
+    adjustedRevenue *= adjustedPriceFactor;
+    adjustedCOGS *= inflation.cogs;
+    
+    // Unit demand, including the extra volume efficiency gains make room for
+    const phasedUnits = baselinePriceImpact.units + (priceImpact.units - baselinePriceImpact.units) * priceProgress;
+    const unitPrice = phasedUnits > 0 ? phasedRevenue / phasedUnits : baselineData.averagePrice; // before inflation
+    const demandUnits = adjustedSubscription ? adjustedSubscription.customers :
+      phasedUnits * (1 + marketingBoost) * growthFactor * seasonalFactor +
+      (unitPrice > 0 ? (efficiencyImpact.revenueIncrease || 0) * efficiencyProgress * growthFactor * seasonalFactor / unitPrice : 0);
+    
+    // Capacity: units beyond what the business can make are not sold, and their variable cost is not incurred
+    let capacityUnits = 0;
+    let unmetUnits = 0;
+    let lostRevenue = 0;
+    let extraLaborCost = 0;
+    if (hasCapacity) {
+      // Capacity scales with efficiency gained over the baseline
+      const { baselineEfficiency } = assumptions;
+      const efficiencyLevel = 100 + ((operationalFactors?.productionEfficiency ?? baselineEfficiency) - baselineEfficiency) * efficiencyProgress;
+      capacityUnits = calculateCapacityUnits(options.capacity, efficiencyLevel);
+      extraLaborCost = baselineData.monthlyLabor * (options.capacity.laborCapacityFactor - 1) * inflation.wages;
+      
+      if (demandUnits > capacityUnits) {
+        unmetUnits = demandUnits - capacityUnits;
+        const soldShare = capacityUnits / demandUnits;
+        lostRevenue = adjustedRevenue * (1 - soldShare);
+        adjustedRevenue *= soldShare;
+        adjustedCOGS *= soldShare;
+      }
+    }
+    
+    const automationNetImpact = laborSavings * inflation.wages -
+      (!isCapexMode && hasInterventionStarted(timeline.laborAutomationLevel, index) ? automationImpact.automationInvestment || 0 : 0);
+    const inventoryNetImpact = ((inventoryImpact.netImpact || 0) + (inventoryImpact.implementationCost || 0)) * inventoryProgress -
+      (hasInterventionStarted(timeline.inventoryTurnoverRate, index) ? inventoryImpact.implementationCost || 0 : 0);
     
     // Calculate adjusted profit with all operational impacts
-    const adjustedProfit = adjustedRevenue - adjustedCOGS - baselineData.monthlyLabor - baselineData.monthlyOverhead - marketingValue + 
-                          (automationImpact.netImpact || 0) + (inventoryImpact.netImpact || 0);
+    const investmentExpense = (automationSchedule[index]?.expense || 0) + (efficiencySchedule[index]?.expense || 0);
+    const investmentCashFlow = (automationSchedule[index]?.cashOutflow || 0) + (efficiencySchedule[index]?.cashOutflow || 0);
+    const investmentDepreciation = (automationSchedule[index]?.depreciation || 0) + (efficiencySchedule[index]?.depreciation || 0);
+    const adjustedProfit = adjustedRevenue - adjustedCOGS - baselineData.monthlyLabor * inflation.wages - baselineData.monthlyOverhead * inflation.overhead - marketingSpendPath[index] + 
+                          automationNetImpact + inventoryNetImpact - investmentExpense - extraLaborCost - retentionCost;
     
-    // Confidence bands (±15%)
-    const confidenceRange = 0.15;
+    // Confidence bands around each month's profit
+    const confidenceRange = assumptions.confidenceBand;
     
     return {
       month,
@@ -284,17 +700,99 @@ export const generateForecastData = (
       originalLowerBound: Math.round((originalProfit || 0) * (1 - confidenceRange)),
       originalUpperBound: Math.round((originalProfit || 0) * (1 + confidenceRange)),
       adjustedLowerBound: Math.round((adjustedProfit || 0) * (1 - confidenceRange)),
-      adjustedUpperBound: Math.round((adjustedProfit || 0) * (1 + confidenceRange))
+      adjustedUpperBound: Math.round((adjustedProfit || 0) * (1 + confidenceRange)),
+      adjustedRevenue: Math.round(adjustedRevenue || 0),
+      adjustedCOGS: Math.round(adjustedCOGS || 0),
+      marketingSpend: Math.round(marketingSpendPath[index]),
+      unitsSold: Math.round(demandUnits - unmetUnits),
+      ...(hasCapacity && {
+        demandUnits: Math.round(demandUnits),
+        capacityUnits: Math.round(capacityUnits),
+        unmetUnits: Math.round(unmetUnits),
+        lostRevenue: Math.round(lostRevenue)
+      }),
+      ...(isCapexMode && {
+        investmentExpense: Math.round(investmentExpense),
+        investmentCashFlow: Math.round(investmentCashFlow),
+        investmentDepreciation: Math.round(investmentDepreciation)
+      }),
+      ...(adjustedSubscription && {
+        customers: Math.round(adjustedSubscription.customers),
+        newCustomers: Math.round(adjustedSubscription.newCustomers),
+        churnedCustomers: Math.round(adjustedSubscription.churnedCustomers),
+        mrr: Math.round(adjustedSubscription.mrr),
+        originalMrr: Math.round(originalSubscription.mrr)
+      })
     };
   });
 };
 
+export interface SummaryOptions {
+  discountRate?: number; // annual rate used for NPV, IRR and discounted payback
+  investmentModel?: InvestmentModel; // capex mode counts automation and efficiency as up-front capital
+  tax?: TaxConfig; // adds the after-tax view; every other figure stays pre-tax
+}
+
+export interface YearlySummary {
+  year: number;
+  months: number;
+  originalProfit: number;
+  adjustedProfit: number;
+  difference: number;
+  cumulativeDifference: number;
+  cumulativeRoi: number;
+}
+
+// After-tax counterparts of the headline summary figures
+export interface AfterTaxSummary {
+  taxRate: number;
+  currentProfit: number;
+  newProfit: number;
+  monthlyDifference: number;
+  annualDifference: number;
+  roi: number;
+  cumulativeDifference: number;
+  horizonRoi: number;
+  yearlyFigures: YearlySummary[];
+  totalTax: number; // adjusted scenario, over the horizon
+  lossCarriedForward: number; // adjusted scenario, unused at the end of the horizon
+}
+
+// Per-year and cumulative profit difference, with ROI against the investment made so far
+const buildYearlyFigures = (
+  originalProfits: number[],
+  adjustedProfits: number[],
+  investmentTo: (months: number) => number
+): YearlySummary[] => {
+  const yearlyFigures: YearlySummary[] = [];
+  let cumulativeDifference = 0;
+  for (let start = 0; start < adjustedProfits.length; start += 12) {
+    const originalProfit = originalProfits.slice(start, start + 12).reduce((sum, profit) => sum + profit, 0);
+    const yearProfits = adjustedProfits.slice(start, start + 12);
+    const adjustedProfit = yearProfits.reduce((sum, profit) => sum + profit, 0);
+    cumulativeDifference += adjustedProfit - originalProfit;
+    const cumulativeInvestment = investmentTo(start + yearProfits.length);
+    
+    yearlyFigures.push({
+      year: start / 12 + 1,
+      months: yearProfits.length,
+      originalProfit: Math.round(originalProfit),
+      adjustedProfit: Math.round(adjustedProfit),
+      difference: Math.round(adjustedProfit - originalProfit),
+      cumulativeDifference: Math.round(cumulativeDifference),
+      cumulativeRoi: cumulativeInvestment > 0 ? Math.round((cumulativeDifference / cumulativeInvestment) * 1000) / 10 : 0
+    });
+  }
+  return yearlyFigures;
+};
+
 // Calculate summary metrics
 export const calculateSummaryMetrics = (
   baselineData: PLData,
   forecastData: ForecastData[],
   marketingValue: number,
-  operationalFactors?: OperationalFactors
+  operationalFactors?: OperationalFactors,
+  options: SummaryOptions = {}
 ) => {
   const currentProfit = baselineData.monthlyProfit;
   const newProfit = forecastData[0]?.adjustedProfit || 0;
@@ -302,26 +800,93 @@ export const calculateSummaryMetrics = (
   const annualDifference = monthlyDifference * 12;
   
   // Calculate total investment including operational factors
-  let totalInvestment = (marketingValue - baselineData.marketingSpend) * 12;
+  const isCapexMode = options.investmentModel?.mode === 'capex';
+  let monthlyInvestment = 0;
+  let upfrontInvestment = 0;
+  
+  // Incremental marketing follows the spend actually scheduled in each month
+  const marketingIncrements = forecastData.map(month => (month.marketingSpend ?? marketingValue) - baselineData.marketingSpend);
+  const marketingInvestmentTo = (months: number) => marketingIncrements.slice(0, months).reduce((sum, increment) => sum + increment, 0);
   
   if (operationalFactors) {
     const automationImpact = calculateLaborAutomationImpact(baselineData, operationalFactors.laborAutomationLevel);
     const efficiencyImpact = calculateProductionEfficiencyImpact(baselineData, operationalFactors.productionEfficiency);
     const inventoryImpact = calculateInventoryTurnoverImpact(baselineData, operationalFactors.inventoryTurnoverRate);
     
-    totalInvestment += (automationImpact.automationInvestment || 0) * 12;
-    totalInvestment += (efficiencyImpact.implementationCost || 0) * 12;
-    totalInvestment += (inventoryImpact.implementationCost || 0) * 12;
+    if (isCapexMode) {
+      upfrontInvestment = calculateUpfrontCapex(baselineData, operationalFactors, options.investmentModel).total;
+    } else {
+      monthlyInvestment += automationImpact.automationInvestment || 0;
+      monthlyInvestment += efficiencyImpact.implementationCost || 0;
+    }
+    monthlyInvestment += inventoryImpact.implementationCost || 0;
   }
   
+  const totalInvestment = monthlyInvestment * 12 + marketingInvestmentTo(12) + upfrontInvestment;
   const roi = totalInvestment > 0 ? (annualDifference / totalInvestment) * 100 : 0;
   
+  // Per-year and cumulative figures over the full forecast horizon
+  const investmentTo = (months: number) => upfrontInvestment + monthlyInvestment * months + marketingInvestmentTo(months);
+  const originalProfits = forecastData.map(month => month.originalProfit);
+  const adjustedProfits = forecastData.map(month => month.adjustedProfit);
+  const yearlyFigures = buildYearlyFigures(originalProfits, adjustedProfits, investmentTo);
+  const cumulativeDifference = yearlyFigures[yearlyFigures.length - 1]?.cumulativeDifference || 0;
+  
+  // After-tax view: each scenario carries its own losses; depreciation is only deductible with the shield on
+  let afterTax: AfterTaxSummary | null = null;
+  if (options.tax) {
+    const tax = options.tax;
+    const originalTax = calculateTaxSchedule(originalProfits, tax);
+    const adjustedTax = calculateTaxSchedule(
+      adjustedProfits,
+      tax,
+      tax.depreciationShield ? [] : forecastData.map(month => month.investmentDepreciation || 0)
+    );
+    const afterTaxYearly = buildYearlyFigures(originalTax.afterTaxProfit, adjustedTax.afterTaxProfit, investmentTo);
+    const afterTaxCurrentProfit = calculateAfterTaxProfit(currentProfit, tax.rate);
+    const afterTaxNewProfit = adjustedTax.afterTaxProfit[0] || 0;
+    const afterTaxAnnualDifference = (afterTaxNewProfit - afterTaxCurrentProfit) * 12;
+    
+    afterTax = {
+      taxRate: tax.rate,
+      currentProfit: Math.round(afterTaxCurrentProfit),
+      newProfit: Math.round(afterTaxNewProfit),
+      monthlyDifference: Math.round(afterTaxNewProfit - afterTaxCurrentProfit),
+      annualDifference: Math.round(afterTaxAnnualDifference),
+      roi: totalInvestment > 0 ? Math.round((afterTaxAnnualDifference / totalInvestment) * 1000) / 10 : 0,
+      cumulativeDifference: afterTaxYearly[afterTaxYearly.length - 1]?.cumulativeDifference || 0,
+      horizonRoi: afterTaxYearly[afterTaxYearly.length - 1]?.cumulativeRoi || 0,
+      yearlyFigures: afterTaxYearly,
+      totalTax: Math.round(adjustedTax.tax.reduce((sum, monthTax) => sum + monthTax, 0)),
+      lossCarriedForward: Math.round(adjustedTax.lossCarriedForward)
+    };
+  }
+  
+  // Discounted view: monthly incremental benefit versus the investment stream over the horizon
+  // In capex mode the non-cash depreciation is added back and the actual capex/financing cash is the investment
+  const discountRate = options.discountRate ?? DEFAULT_DISCOUNT_RATE;
+  const investmentFlows = [0, ...forecastData.map((month, index) => monthlyInvestment + marketingIncrements[index] + (month.investmentCashFlow || 0))];
+  const benefitFlows = [0, ...forecastData.map((month, index) =>
+    month.adjustedProfit - month.originalProfit + monthlyInvestment + marketingIncrements[index] + (month.investmentExpense || 0)
+  )];
+  const discountedMetrics = calculateDiscountedMetrics(benefitFlows, investmentFlows, discountRate);
+  
   return {
     currentProfit,
     newProfit,
     monthlyDifference,
     annualDifference,
     roi: Math.round(roi * 10) / 10,
-    totalInvestment: Math.round(totalInvestment)
+    totalInvestment: Math.round(totalInvestment),
+    upfrontInvestment: Math.round(upfrontInvestment),
+    horizonMonths: forecastData.length,
+    cumulativeOriginalProfit: yearlyFigures.reduce((sum, year) => sum + year.originalProfit, 0),
+    cumulativeAdjustedProfit: yearlyFigures.reduce((sum, year) => sum + year.adjustedProfit, 0),
+    cumulativeDifference: Math.round(cumulativeDifference),
+    horizonRoi: yearlyFigures[yearlyFigures.length - 1]?.cumulativeRoi || 0,
+    yearlyFigures,
+    afterTax,
+    discountRate,
+    ...discountedMetrics
   };
 };
\ No newline at end of file
@@ -0,0 +1,173 @@
+// Recurring revenue: customers, ARPU, churn, expansion and CAC in place of unit sales
+
+import type { PLData } from './simulationUtils';
+import { convertAmount } from '@/lib/currency';
+
+export interface SubscriptionModel {
+  customers: number; // active subscribers today
+  arpu: number; // monthly recurring revenue per customer
+  monthlyChurnRate: number; // share of customers cancelling each month, e.g. 0.03
+  monthlyExpansionRate: number; // ARPU growth per month from upgrades and extra seats, net of downgrades
+  newCustomersPerMonth: number; // sign-ups at today's price and marketing spend
+  cac: number; // marketing spend per extra customer acquired
+  churnPriceSensitivity: number; // relative churn increase per relative price increase; 1 = +10% price, +10% churn
+  retentionCostPerPoint: number; // monthly retention spend per point (1%) of relative churn reduction
+}
+
+// Per-month drivers the scenario applies to the subscription roll-forward
+export interface SubscriptionDrivers {
+  arpuFactor: number; // scenario price relative to today's ARPU
+  churnMultiplier: number; // scenario churn relative to today's
+  acquisitionMultiplier: number; // sign-up response to the price
+  extraNewCustomers: number; // sign-ups from marketing above today's spend; negative when spend is cut
+}
+
+export interface SubscriptionMonth {
+  customers: number; // active at month end
+  newCustomers: number;
+  churnedCustomers: number;
+  arpu: number;
+  mrr: number;
+}
+
+export interface SubscriptionUnitEconomics {
+  grossMarginPerCustomer: number; // monthly
+  lifetimeMonths: number;
+  ltv: number;
+  ltvToCac: number;
+  paybackMonths: number;
+}
+
+export const MAX_CHURN_REDUCTION = 0.5;
+
+export const NEUTRAL_SUBSCRIPTION_DRIVERS: SubscriptionDrivers = {
+  arpuFactor: 1,
+  churnMultiplier: 1,
+  acquisitionMultiplier: 1,
+  extraNewCustomers: 0
+};
+
+// Subscription view of today's P&L: units become customers and price becomes ARPU. Sign-ups replace
+// churned customers and marketing spend is all acquisition, so the base holds flat before expansion.
+export const createDefaultSubscriptionModel = (baselineData: PLData): SubscriptionModel => {
+  const customers = Math.max(1, Math.round(baselineData.unitsSold));
+  const monthlyChurnRate = 0.03;
+  const newCustomersPerMonth = Math.round(customers * monthlyChurnRate);
+  return {
+    customers,
+    arpu: baselineData.averagePrice,
+    monthlyChurnRate,
+    monthlyExpansionRate: 0.005,
+    newCustomersPerMonth,
+    cac: newCustomersPerMonth > 0 ? Math.round(baselineData.marketingSpend / newCustomersPerMonth) : 0,
+    churnPriceSensitivity: 1,
+    retentionCostPerPoint: Math.round(baselineData.monthlyRevenue * 0.001)
+  };
+};
+
+// Replace unit revenue with MRR. COGS keeps its share of revenue, so cost to serve scales with the base.
+export const applySubscription = (baselineData: PLData, model: SubscriptionModel | null): PLData => {
+  if (!model) return { ...baselineData, subscription: undefined };
+
+  const revenue = model.customers * model.arpu;
+  const cogs = baselineData.monthlyRevenue > 0 ? baselineData.monthlyCOGS * revenue / baselineData.monthlyRevenue : 0;
+  const grossProfitChange = (revenue - cogs) - (baselineData.monthlyRevenue - baselineData.monthlyCOGS);
+
+  return {
+    ...baselineData,
+    monthlyRevenue: revenue,
+    monthlyCOGS: cogs,
+    monthlyProfit: baselineData.monthlyProfit + grossProfitChange,
+    averagePrice: model.arpu,
+    unitsSold: model.customers,
+    productLines: undefined,
+    subscription: model
+  };
+};
+
+// Month-by-month roll-forward: churn leaves the opening base, sign-ups join it, and ARPU compounds with expansion
+export const projectSubscriptions = (
+  model: SubscriptionModel,
+  months: number,
+  getDrivers: (index: number) => SubscriptionDrivers = () => NEUTRAL_SUBSCRIPTION_DRIVERS
+): SubscriptionMonth[] => {
+  let customers = model.customers;
+  return Array.from({ length: months }, (_, index) => {
+    const drivers = getDrivers(index);
+    const churnRate = Math.min(1, Math.max(0, model.monthlyChurnRate * drivers.churnMultiplier));
+    const churnedCustomers = customers * churnRate;
+    const newCustomers = Math.max(0, model.newCustomersPerMonth * drivers.acquisitionMultiplier + drivers.extraNewCustomers);
+    customers = customers - churnedCustomers + newCustomers;
+    const arpu = model.arpu * drivers.arpuFactor * Math.pow(1 + model.monthlyExpansionRate, index);
+    return { customers, newCustomers, churnedCustomers, arpu, mrr: customers * arpu };
+  });
+};
+
+// Lifetime value, LTV:CAC and CAC payback from ARPU, gross margin and churn
+export const calculateUnitEconomics = (model: SubscriptionModel, grossMarginShare: number): SubscriptionUnitEconomics => {
+  const grossMarginPerCustomer = model.arpu * grossMarginShare;
+  const lifetimeMonths = model.monthlyChurnRate > 0 ? 1 / model.monthlyChurnRate : Infinity;
+  const ltv = grossMarginPerCustomer * lifetimeMonths;
+  return {
+    grossMarginPerCustomer,
+    lifetimeMonths,
+    ltv,
+    ltvToCac: model.cac > 0 ? ltv / model.cac : Infinity,
+    paybackMonths: grossMarginPerCustomer > 0 ? model.cac / grossMarginPerCustomer : Infinity
+  };
+};
+
+interface SubscriptionEntry {
+  customers?: number;
+  arpu?: number;
+  churn_rate?: number;
+  monthlyChurnRate?: number;
+  expansion_rate?: number;
+  monthlyExpansionRate?: number;
+  new_customers?: number;
+  newCustomersPerMonth?: number;
+  cac?: number;
+  churn_price_sensitivity?: number;
+  churnPriceSensitivity?: number;
+  retention_cost_per_point?: number;
+  retentionCostPerPoint?: number;
+}
+
+const readNumber = (...values: unknown[]) => {
+  const value = values.find(candidate => candidate !== undefined && candidate !== null && candidate !== '');
+  const number = Number(value);
+  return value === undefined || !Number.isFinite(number) ? undefined : number;
+};
+
+// Read a subscription model from uploaded data; amounts are converted into the reporting currency and
+// anything missing is filled from the P&L the way the default model is
+export const extractSubscription = (
+  data: { subscription?: unknown } | null | undefined,
+  baselineData: PLData
+): SubscriptionModel | null => {
+  const entry = data?.subscription as SubscriptionEntry | undefined;
+  if (!entry || typeof entry !== 'object') return null;
+
+  const customers = readNumber(entry.customers);
+  const arpu = readNumber(entry.arpu);
+  if (!customers || customers <= 0 || !arpu || arpu <= 0) return null;
+
+  const convertedArpu = convertAmount(arpu);
+  const defaults = createDefaultSubscriptionModel({ ...baselineData, unitsSold: customers, averagePrice: convertedArpu });
+  const monthlyChurnRate = readNumber(entry.monthlyChurnRate, entry.churn_rate) ?? defaults.monthlyChurnRate;
+  const newCustomersPerMonth = readNumber(entry.newCustomersPerMonth, entry.new_customers) ?? Math.round(customers * monthlyChurnRate);
+  const cac = readNumber(entry.cac);
+  const retentionCostPerPoint = readNumber(entry.retentionCostPerPoint, entry.retention_cost_per_point);
+
+  return {
+    customers,
+    arpu: convertedArpu,
+    monthlyChurnRate: Math.min(1, Math.max(0, monthlyChurnRate)),
+    monthlyExpansionRate: readNumber(entry.monthlyExpansionRate, entry.expansion_rate) ?? defaults.monthlyExpansionRate,
+    newCustomersPerMonth: Math.max(0, newCustomersPerMonth),
+    cac: cac !== undefined ? convertAmount(cac) :
+      newCustomersPerMonth > 0 ? Math.round(baselineData.marketingSpend / newCustomersPerMonth) : defaults.cac,
+    churnPriceSensitivity: readNumber(entry.churnPriceSensitivity, entry.churn_price_sensitivity) ?? defaults.churnPriceSensitivity,
+    retentionCostPerPoint: retentionCostPerPoint !== undefined ? convertAmount(retentionCostPerPoint) : defaults.retentionCostPerPoint
+  };
+};
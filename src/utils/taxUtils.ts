@@ -0,0 +1,56 @@
+// Corporate tax: annual tax on forecast profit with loss carry-forward and the capex depreciation shield
+
+export interface TaxConfig {
+  rate: number; // corporate income tax rate, e.g. 0.21
+  lossCarryForward: boolean; // losses offset taxable profit in later tax years
+  depreciationShield: boolean; // capex depreciation is deductible; when off it is added back to taxable profit
+}
+
+export interface TaxSchedule {
+  taxableIncome: number[];
+  tax: number[];
+  afterTaxProfit: number[];
+  lossCarriedForward: number; // unused losses at the end of the forecast
+}
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  rate: 0.21,
+  lossCarryForward: true,
+  depreciationShield: true
+};
+
+// Tax on a single month's profit at the flat rate; losses are not taxed
+export const calculateAfterTaxProfit = (profit: number, rate: number) => (profit > 0 ? profit * (1 - rate) : profit);
+
+// Each 12-month block is a tax year: months net against each other, and the year's tax is spread over
+// the profitable months. nonDeductible holds per-month expenses added back to taxable income.
+export const calculateTaxSchedule = (profits: number[], config: TaxConfig, nonDeductible: number[] = []): TaxSchedule => {
+  const taxableIncome = profits.map((profit, index) => profit + (nonDeductible[index] || 0));
+  const tax: number[] = profits.map(() => 0);
+  let lossPool = 0;
+
+  for (let start = 0; start < taxableIncome.length; start += 12) {
+    const yearIncome = taxableIncome.slice(start, start + 12);
+    const yearTaxable = yearIncome.reduce((sum, income) => sum + income, 0);
+
+    let taxableAfterLosses = Math.max(0, yearTaxable);
+    if (config.lossCarryForward) {
+      const lossUsed = Math.min(lossPool, taxableAfterLosses);
+      taxableAfterLosses -= lossUsed;
+      lossPool += Math.max(0, -yearTaxable) - lossUsed;
+    }
+
+    const yearTax = taxableAfterLosses * config.rate;
+    const positiveIncome = yearIncome.reduce((sum, income) => sum + Math.max(0, income), 0);
+    yearIncome.forEach((income, offset) => {
+      tax[start + offset] = positiveIncome > 0 ? yearTax * (Math.max(0, income) / positiveIncome) : 0;
+    });
+  }
+
+  return {
+    taxableIncome,
+    tax,
+    afterTaxProfit: profits.map((profit, index) => profit - tax[index]),
+    lossCarriedForward: lossPool
+  };
+};
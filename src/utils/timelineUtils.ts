@@ -0,0 +1,32 @@
+// Phased interventions: each lever starts in a given month and ramps up to its full effect
+
+export type InterventionLeverId = 'price' | 'laborAutomationLevel' | 'productionEfficiency' | 'inventoryTurnoverRate';
+
+export interface InterventionSchedule {
+  startMonth: number; // 1-based forecast month the rollout begins
+  rampMonths: number; // months to reach the full effect; 0 = all at once
+}
+
+export type InterventionTimeline = Partial<Record<InterventionLeverId, InterventionSchedule>>;
+
+export const INTERVENTION_LABELS: Record<InterventionLeverId, string> = {
+  price: 'Price Change',
+  laborAutomationLevel: 'Labor Automation',
+  productionEfficiency: 'Production Efficiency',
+  inventoryTurnoverRate: 'Inventory Turnover'
+};
+
+export const DEFAULT_INTERVENTION_SCHEDULE: InterventionSchedule = { startMonth: 1, rampMonths: 0 };
+
+// Share of the full effect reached in a forecast month (0-based index); linear ramp from the start month
+export const getRampProgress = (schedule: InterventionSchedule | undefined, monthIndex: number) => {
+  if (!schedule) return 1;
+  const elapsed = monthIndex - (schedule.startMonth - 1);
+  if (elapsed < 0) return 0;
+  if (schedule.rampMonths <= 0) return 1;
+  return Math.min(1, (elapsed + 1) / schedule.rampMonths);
+};
+
+// Whether the rollout has begun, so its running costs are being paid
+export const hasInterventionStarted = (schedule: InterventionSchedule | undefined, monthIndex: number) =>
+  !schedule || monthIndex >= schedule.startMonth - 1;
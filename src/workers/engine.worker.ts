@@ -0,0 +1,26 @@
+// Simulation engine worker: runs one job at a time off the main thread and reports progress while it runs
+
+import { runEngineJob, type EngineRequestMessage, type EngineResponseMessage } from './engineJobs';
+import { getCurrencySettings, setCurrencySettings } from '@/lib/currency';
+
+const worker = self as unknown as Worker;
+
+const respond = (message: EngineResponseMessage) => worker.postMessage(message);
+
+worker.onmessage = (event: MessageEvent<EngineRequestMessage>) => {
+  const message = event.data;
+  if (message.type !== 'run') return;
+
+  if (JSON.stringify(message.currency) !== JSON.stringify(getCurrencySettings())) {
+    setCurrencySettings(message.currency);
+  }
+
+  try {
+    const result = runEngineJob(message.job, message.request, (completed, total) =>
+      respond({ type: 'progress', id: message.id, completed, total })
+    );
+    respond({ type: 'result', id: message.id, job: message.job, result } as EngineResponseMessage);
+  } catch (error) {
+    respond({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,107 @@
+// Engine jobs the worker runs, and the typed messages it exchanges with the main thread
+
+import {
+  generateForecastData,
+  calculateSummaryMetrics,
+  type PLData,
+  type ForecastData,
+  type ForecastOptions,
+  type OperationalFactors,
+  type SummaryOptions
+} from '@/utils/simulationUtils';
+import { runMonteCarloForecast, type MonteCarloConfig } from '@/utils/monteCarloUtils';
+import {
+  runSensitivityAnalysis,
+  type SensitivityMetric,
+  type SensitivityRange,
+  type SensitivityResult,
+  type SensitivityScenario
+} from '@/utils/sensitivityUtils';
+import {
+  solveGoalSeek,
+  getDefaultGoalSeekTarget,
+  type GoalSeekLever,
+  type GoalSeekMetric,
+  type GoalSeekSolution,
+  type GoalSeekTarget
+} from '@/utils/goalSeekUtils';
+import type { CurrencySettings } from '@/lib/currency';
+
+export interface ForecastJobRequest {
+  baselineData: PLData;
+  priceValue: number;
+  marketingValue: number;
+  operationalFactors: OperationalFactors;
+  forecastOptions: ForecastOptions;
+  summaryOptions: SummaryOptions;
+  monteCarlo?: MonteCarloConfig; // percentile bands instead of the fixed confidence band
+}
+
+export interface ForecastJobResult {
+  forecastData: ForecastData[];
+  summaryMetrics: ReturnType<typeof calculateSummaryMetrics>;
+}
+
+export interface SensitivityJobRequest {
+  scenario: SensitivityScenario;
+  metric: SensitivityMetric;
+  ranges: SensitivityRange[];
+}
+
+export interface GoalSeekJobRequest {
+  scenario: SensitivityScenario;
+  target: GoalSeekTarget;
+  levers: GoalSeekLever[];
+}
+
+export interface GoalSeekTargetJobRequest {
+  scenario: SensitivityScenario;
+  metric: GoalSeekMetric;
+}
+
+export interface EngineJobs {
+  forecast: { request: ForecastJobRequest; result: ForecastJobResult };
+  sensitivity: { request: SensitivityJobRequest; result: SensitivityResult[] };
+  goalSeek: { request: GoalSeekJobRequest; result: GoalSeekSolution };
+  goalSeekTarget: { request: GoalSeekTargetJobRequest; result: GoalSeekTarget };
+}
+
+export type EngineJobType = keyof EngineJobs;
+
+// Requests carry the reporting currency so text the engine writes (goal seek explanations) matches the page
+export type EngineRequestMessage = {
+  [K in EngineJobType]: { type: 'run'; id: number; job: K; request: EngineJobs[K]['request']; currency: CurrencySettings };
+}[EngineJobType];
+
+export type EngineResponseMessage =
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { [K in EngineJobType]: { type: 'result'; id: number; job: K; result: EngineJobs[K]['result'] } }[EngineJobType]
+  | { type: 'error'; id: number; message: string };
+
+export type EngineProgress = (completed: number, total: number) => void;
+
+const runForecastJob = (request: ForecastJobRequest, onProgress?: EngineProgress): ForecastJobResult => {
+  const { baselineData, priceValue, marketingValue, operationalFactors, forecastOptions, summaryOptions, monteCarlo } = request;
+  const forecastData = monteCarlo
+    ? runMonteCarloForecast(baselineData, priceValue, marketingValue, operationalFactors, monteCarlo, forecastOptions, onProgress)
+    : generateForecastData(baselineData, priceValue, marketingValue, operationalFactors, forecastOptions);
+  return {
+    forecastData,
+    summaryMetrics: calculateSummaryMetrics(baselineData, forecastData, marketingValue, operationalFactors, summaryOptions)
+  };
+};
+
+// Run one job synchronously; the worker calls this, and so does the main thread where workers are unavailable
+export const runEngineJob = <K extends EngineJobType>(
+  job: K,
+  request: EngineJobs[K]['request'],
+  onProgress?: EngineProgress
+): EngineJobs[K]['result'] => {
+  const runners: { [J in EngineJobType]: (request: EngineJobs[J]['request']) => EngineJobs[J]['result'] } = {
+    forecast: forecastRequest => runForecastJob(forecastRequest, onProgress),
+    sensitivity: ({ scenario, metric, ranges }) => runSensitivityAnalysis(scenario, metric, ranges, onProgress),
+    goalSeek: ({ scenario, target, levers }) => solveGoalSeek(scenario, target, levers, onProgress),
+    goalSeekTarget: ({ scenario, metric }) => ({ metric, value: getDefaultGoalSeekTarget(scenario, metric) })
+  };
+  return runners[job](request);
+};